@@ -0,0 +1,141 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+import { run } from '../src/cli'
+
+describe('CLI', () => {
+    const fixture = path.join(__dirname, 'fixtures', 'app.ts')
+    let tmpDir: string
+    let stdout: jest.SpyInstance
+    let stderr: jest.SpyInstance
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'express-openapi-'))
+        stdout = jest.spyOn(process.stdout, 'write').mockImplementation(() => true)
+        stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true)
+    })
+
+    afterEach(() => {
+        stdout.mockRestore()
+        stderr.mockRestore()
+        fs.rmSync(tmpDir, { recursive: true, force: true })
+    })
+
+    describe('export command', () => {
+        it('should write the JSON document to stdout', () => {
+            expect(run(['export', fixture])).toBe(0)
+
+            const doc = JSON.parse(stdout.mock.calls[0][0])
+            expect(doc.info.title).toBe('Fixture API')
+            expect(doc.paths['users/{id}'].get.summary).toBe('Get user')
+        })
+
+        it('should infer YAML from the output file extension', () => {
+            const output = path.join(tmpDir, 'openapi.yaml')
+
+            expect(run(['export', fixture, '--output', output])).toBe(0)
+            expect(fs.readFileSync(output, 'utf8')).toContain('title: Fixture API')
+        })
+
+        it('should pretty-print JSON', () => {
+            expect(run(['export', fixture, '--format', 'json', '--pretty'])).toBe(0)
+            expect(stdout.mock.calls[0][0]).toContain('\n  "openapi": "3.0.0"')
+        })
+
+        it('should fail the check when the file on disk is stale', () => {
+            const output = path.join(tmpDir, 'openapi.json')
+
+            fs.writeFileSync(output, '{}\n')
+            expect(run(['export', fixture, '-o', output, '--check'])).toBe(1)
+
+            expect(run(['export', fixture, '-o', output])).toBe(0)
+            expect(run(['export', fixture, '-o', output, '--check'])).toBe(0)
+        })
+
+        it('should fail when route coverage is below the threshold', () => {
+            expect(run(['export', fixture, '--min-coverage', '50'])).toBe(0)
+            expect(run(['export', fixture, '--min-coverage', '80'])).toBe(1)
+
+            const message = stderr.mock.calls.map(call => call[0]).join('')
+            expect(message).toContain('50.0% of routes are documented, expected at least 80%')
+            expect(message).toContain('- GET health')
+        })
+
+        it('should report usage errors', () => {
+            expect(run(['export'])).toBe(2)
+            expect(run(['export', fixture, '--format', 'xml'])).toBe(2)
+            expect(run(['export', fixture, '--check'])).toBe(2)
+            expect(run(['serve', fixture])).toBe(2)
+            expect(run(['export', fixture, '--min-coverage', 'all'])).toBe(2)
+        })
+
+        it('should fail for modules without an application', () => {
+            expect(run(['export', __filename, '--export', 'missing'])).toBe(1)
+            expect(stderr.mock.calls[0][0]).toContain('does not export an Express application')
+        })
+    })
+
+    describe('diff command', () => {
+        function writeDocument(name: string, paths: object): string {
+            const file = path.join(tmpDir, name)
+            const doc = { openapi: '3.0.0', info: { title: 'API', version: '1.0.0' }, paths }
+            fs.writeFileSync(file, JSON.stringify(doc))
+            return file
+        }
+
+        const getUser = {
+            get: {
+                parameters: [
+                    { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+                ],
+                responses: { '200': { description: 'Success' } },
+            },
+        }
+
+        it('should pass when head only adds operations', () => {
+            const base = writeDocument('base.json', {})
+
+            expect(run(['diff', base, fixture])).toBe(0)
+            const output = stdout.mock.calls[0][0]
+            expect(output).toBe('Non-breaking changes:\n- users/{id}: Path added\n')
+        })
+
+        it('should fail on breaking changes', () => {
+            const base = writeDocument('base.json', { 'users/{id}': getUser, orders: getUser })
+
+            expect(run(['diff', base, fixture])).toBe(1)
+            expect(stdout.mock.calls[0][0]).toMatch(/^Breaking changes:\n- orders: Path removed\n/)
+        })
+
+        it('should print the report as JSON', () => {
+            const base = writeDocument('base.json', { orders: getUser })
+            const head = writeDocument('head.json', { orders: getUser })
+
+            expect(run(['diff', base, head, '--format', 'json'])).toBe(0)
+            expect(JSON.parse(stdout.mock.calls[0][0])).toEqual({ breaking: false, changes: [] })
+        })
+
+        it('should report usage errors', () => {
+            expect(run(['diff', fixture])).toBe(2)
+            expect(run(['diff', fixture, fixture, '--format', 'yaml'])).toBe(2)
+        })
+    })
+
+    describe('client command', () => {
+        it('should write the client sources to the output directory', () => {
+            const output = path.join(tmpDir, 'client')
+
+            expect(run(['client', fixture, '--output', output])).toBe(0)
+            expect(fs.readdirSync(output).sort()).toEqual(['client.ts', 'schemas.ts'])
+            expect(fs.readFileSync(path.join(output, 'client.ts'), 'utf8')).toContain(
+                'getUsersById: (input: GetUsersByIdRequest, init?: RequestInit) =>',
+            )
+        })
+
+        it('should report usage errors', () => {
+            expect(run(['client', fixture])).toBe(2)
+            expect(run(['client', '--output', tmpDir])).toBe(2)
+        })
+    })
+})
@@ -0,0 +1,284 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { Server } from 'http'
+import { AddressInfo } from 'net'
+import * as express from 'express'
+import * as ts from 'typescript'
+import { Request, Response } from 'express'
+import { OpenAPIV3 } from 'openapi-types'
+
+import { generateClient } from '../src/client'
+
+describe('Client generation', () => {
+    const doc: OpenAPIV3.Document = {
+        openapi: '3.0.0',
+        info: { title: 'Client API', version: '1.0.0' },
+        servers: [{ url: '/api' }],
+        paths: {
+            '/users/{id}': {
+                parameters: [
+                    { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+                ],
+                get: {
+                    operationId: 'getUser',
+                    summary: 'Get a user',
+                    parameters: [
+                        {
+                            name: 'fields',
+                            in: 'query',
+                            schema: { type: 'array', items: { type: 'string' } },
+                        },
+                        {
+                            name: 'filter',
+                            in: 'query',
+                            style: 'deepObject',
+                            schema: {
+                                type: 'object',
+                                properties: { role: { $ref: '#/components/schemas/Role' } },
+                            },
+                        },
+                        { name: 'x-tenant', in: 'header', schema: { type: 'string' } },
+                        { name: 'session', in: 'cookie', schema: { type: 'string' } },
+                    ],
+                    responses: {
+                        '200': {
+                            description: 'User',
+                            content: {
+                                'application/json': {
+                                    schema: { $ref: '#/components/schemas/User' },
+                                },
+                            },
+                        },
+                        '404': { $ref: '#/components/responses/NotFound' },
+                    },
+                },
+                put: {
+                    requestBody: {
+                        required: true,
+                        content: {
+                            'application/json': { schema: { $ref: '#/components/schemas/User' } },
+                        },
+                    },
+                    responses: { '204': { description: 'Updated' } },
+                },
+            },
+            '/tags/{ids}': {
+                get: {
+                    operationId: 'listTags',
+                    parameters: [
+                        {
+                            name: 'ids',
+                            in: 'path',
+                            required: true,
+                            style: 'matrix',
+                            explode: true,
+                            schema: { type: 'array', items: { type: 'integer' } },
+                        },
+                        {
+                            name: 'sort',
+                            in: 'query',
+                            style: 'pipeDelimited',
+                            explode: false,
+                            schema: { type: 'array', items: { type: 'string' } },
+                        },
+                    ],
+                    responses: {
+                        default: {
+                            description: 'Tags',
+                            content: { 'text/plain': { schema: { type: 'string' } } },
+                        },
+                    },
+                },
+            },
+        },
+        components: {
+            schemas: {
+                Role: { type: 'string', enum: ['admin', 'member'] },
+                User: {
+                    type: 'object',
+                    description: 'A registered user',
+                    required: ['id', 'name'],
+                    properties: {
+                        id: { type: 'integer' },
+                        name: { type: 'string' },
+                        role: { $ref: '#/components/schemas/Role' },
+                        manager: {
+                            allOf: [{ $ref: '#/components/schemas/User' }],
+                            nullable: true,
+                        },
+                        'display-name': { type: 'string' },
+                    },
+                },
+                Error: {
+                    type: 'object',
+                    properties: { code: { type: 'string' } },
+                    additionalProperties: true,
+                },
+            },
+            responses: {
+                NotFound: {
+                    description: 'Not found',
+                    content: {
+                        'application/json': { schema: { $ref: '#/components/schemas/Error' } },
+                    },
+                },
+            },
+        },
+    }
+
+    const usage = `
+import { createClient } from './client'
+import { User } from './schemas'
+
+export async function main(): Promise<User | undefined> {
+    const client = createClient({ baseUrl: 'http://localhost' })
+    const res = await client.getUser({ path: { id: 1 }, query: { filter: { role: 'admin' } } })
+    if (res.status === 404) return res.data.code === 'NOT_FOUND' ? undefined : undefined
+    await client.putUsersById({ path: { id: 1 }, body: { id: 1, name: 'Ada', manager: null } })
+    // @ts-expect-error the path parameter is an integer
+    await client.getUser({ path: { id: 'one' } })
+    // @ts-expect-error the body is required
+    await client.putUsersById({ path: { id: 1 } })
+    return res.data
+}
+`
+
+    let tmpDir: string
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'express-openapi-client-'))
+        Object.entries(generateClient(doc)).forEach(([file, source]) => {
+            fs.writeFileSync(path.join(tmpDir, file), source)
+        })
+    })
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true })
+    })
+
+    it('should generate types for component schemas', () => {
+        const schemas = fs.readFileSync(path.join(tmpDir, 'schemas.ts'), 'utf8')
+
+        expect(schemas).toContain("export type Role = 'admin' | 'member'")
+        expect(schemas).toContain(
+            [
+                '/** A registered user */',
+                'export interface User {',
+                '    id: number',
+                '    name: string',
+                '    role?: Role',
+                '    manager?: User | null',
+                "    'display-name'?: string",
+                '}',
+            ].join('\n'),
+        )
+        expect(schemas).toContain('export interface Error {\n    code?: string\n    [key: string]')
+    })
+
+    it('should generate a client that type-checks', () => {
+        fs.writeFileSync(path.join(tmpDir, 'usage.ts'), usage)
+
+        const program = ts.createProgram([path.join(tmpDir, 'usage.ts')], {
+            strict: true,
+            noEmit: true,
+            noUnusedLocals: true,
+            noUnusedParameters: true,
+            target: ts.ScriptTarget.ES2017,
+            module: ts.ModuleKind.CommonJS,
+            lib: ['lib.es2017.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+            types: [],
+        })
+        const diagnostics = ts
+            .getPreEmitDiagnostics(program)
+            .map(d => ts.flattenDiagnosticMessageText(d.messageText, '\n'))
+        expect(diagnostics).toEqual([])
+    })
+
+    describe('requests', () => {
+        let server: Server
+        let client: any
+        const received: Request[] = []
+
+        beforeEach(async () => {
+            const app = express()
+            const record = (req: Request, res: Response) => {
+                received.push(req)
+                if (req.params.id === '404') {
+                    res.status(404).json({ code: 'NOT_FOUND' })
+                } else if (req.method === 'PUT') {
+                    res.status(204).end()
+                } else if (req.path.startsWith('/api/tags')) {
+                    res.type('text/plain').send('tags')
+                } else {
+                    res.json({ id: Number(req.params.id), name: 'Ada' })
+                }
+            }
+            app.get('/api/users/:id', record)
+            app.put('/api/users/:id', express.json(), record)
+            app.get('/api/tags/:ids', record)
+            await new Promise<void>(resolve => {
+                server = app.listen(0, '127.0.0.1', () => resolve())
+            })
+
+            Object.keys(generateClient(doc)).forEach(file => {
+                const source = fs.readFileSync(path.join(tmpDir, file), 'utf8')
+                const options = { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2017 }
+                const { outputText } = ts.transpileModule(source, { compilerOptions: options })
+                fs.writeFileSync(path.join(tmpDir, file.replace(/\.ts$/, '.js')), outputText)
+            })
+            const { port } = server.address() as AddressInfo
+            client = require(path.join(tmpDir, 'client.js')).createClient({
+                baseUrl: `http://127.0.0.1:${port}/api`,
+                headers: { 'x-client': 'test' },
+            })
+            received.length = 0
+        })
+
+        afterEach(async () => {
+            await new Promise(resolve => server.close(resolve))
+        })
+
+        it('should serialize parameters and parse responses', async () => {
+            const res = await client.getUser({
+                path: { id: 7 },
+                query: { fields: ['id', 'name'], filter: { role: 'admin' } },
+                headers: { 'x-tenant': 'acme' },
+                cookies: { session: 'a b' },
+            })
+
+            expect(res.status).toBe(200)
+            expect(res.data).toEqual({ id: 7, name: 'Ada' })
+            const [req] = received
+            expect(req.originalUrl).toBe('/api/users/7?fields=id&fields=name&filter[role]=admin')
+            expect(req.get('x-tenant')).toBe('acme')
+            expect(req.get('x-client')).toBe('test')
+            expect(req.get('cookie')).toBe('session=a%20b')
+        })
+
+        it('should return documented error responses', async () => {
+            const res = await client.getUser({ path: { id: 404 } })
+
+            expect(res.status).toBe(404)
+            expect(res.data).toEqual({ code: 'NOT_FOUND' })
+        })
+
+        it('should send JSON bodies', async () => {
+            const res = await client.putUsersById({ path: { id: 1 }, body: { id: 1, name: 'Ada' } })
+
+            expect(res.status).toBe(204)
+            expect(res.data).toBeUndefined()
+            expect(received[0].body).toEqual({ id: 1, name: 'Ada' })
+        })
+
+        it('should follow the style and explode of parameters', async () => {
+            const res = await client.listTags({
+                path: { ids: [1, 2] },
+                query: { sort: ['name', 'id'] },
+            })
+
+            expect(res.data).toBe('tags')
+            expect(received[0].originalUrl).toBe('/api/tags/;ids=1;ids=2?sort=name|id')
+        })
+    })
+})
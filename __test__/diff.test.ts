@@ -0,0 +1,179 @@
+import { OpenAPIV3 } from 'openapi-types'
+
+import { diffDocuments, formatDiff } from '../src/diff'
+
+describe('Document diff', () => {
+    const user: OpenAPIV3.SchemaObject = {
+        type: 'object',
+        required: ['id'],
+        properties: {
+            id: { type: 'integer' },
+            name: { type: 'string' },
+            role: { type: 'string', enum: ['admin', 'member'] },
+        },
+    }
+
+    function makeDoc(
+        operation: Partial<OpenAPIV3.OperationObject>,
+        schemas: Record<string, OpenAPIV3.SchemaObject> = { User: user },
+    ): OpenAPIV3.Document {
+        return {
+            openapi: '3.0.0',
+            info: { title: 'API', version: '1.0.0' },
+            paths: {
+                '/users/{id}': {
+                    put: {
+                        parameters: [
+                            { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+                        ],
+                        requestBody: {
+                            content: {
+                                'application/json': {
+                                    schema: { $ref: '#/components/schemas/User' },
+                                },
+                            },
+                        },
+                        responses: {
+                            '200': {
+                                description: 'User',
+                                content: {
+                                    'application/json': {
+                                        schema: { $ref: '#/components/schemas/User' },
+                                    },
+                                },
+                            },
+                        },
+                        ...operation,
+                    },
+                },
+            },
+            components: { schemas },
+        }
+    }
+
+    const codes = (base: OpenAPIV3.Document, head: OpenAPIV3.Document) =>
+        diffDocuments(base, head).changes.map(change => [change.code, change.breaking])
+
+    it('should report no changes for identical documents', () => {
+        const diff = diffDocuments(makeDoc({}), makeDoc({}))
+
+        expect(diff).toEqual({ breaking: false, changes: [] })
+        expect(formatDiff(diff)).toBe('No changes\n')
+    })
+
+    it('should compare type lists of 3.1 schemas as sets', () => {
+        const withName = (name: object) =>
+            makeDoc({}, { User: { ...user, properties: { ...user.properties, name } } })
+        const types = (...type: string[]) => withName({ type })
+
+        expect(codes(types('string', 'null'), types('null', 'string'))).toEqual([])
+        expect(
+            codes(withName({ type: 'string', nullable: true }), types('string', 'null')),
+        ).toEqual([])
+        expect(codes(types('string', 'null'), types('string'))).toEqual([
+            ['nullable-changed', true],
+            ['nullable-changed', false],
+        ])
+    })
+
+    it('should classify removed and added operations', () => {
+        const base = makeDoc({})
+        const head = makeDoc({})
+        head.paths['/users/{id}'] = { get: base.paths['/users/{id}']?.put }
+        head.paths['/users'] = { get: { responses: { '200': { description: 'Users' } } } }
+
+        expect(codes(base, head)).toEqual([
+            ['operation-removed', true],
+            ['operation-added', false],
+            ['path-added', false],
+        ])
+    })
+
+    it('should classify parameter changes', () => {
+        const base = makeDoc({})
+        const head = makeDoc({
+            parameters: [
+                { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+                { name: 'dryRun', in: 'query', schema: { type: 'boolean' } },
+                { name: 'x-tenant', in: 'header', required: true },
+            ],
+        })
+
+        expect(codes(base, head)).toEqual([
+            ['type-changed', true],
+            ['parameter-added', false],
+            ['parameter-added', true],
+        ])
+    })
+
+    it('should classify schema changes by direction', () => {
+        const base = makeDoc({})
+        const head = makeDoc(
+            {},
+            {
+                User: {
+                    type: 'object',
+                    required: ['id', 'name'],
+                    properties: {
+                        id: { type: 'integer' },
+                        name: { type: 'string' },
+                        role: { type: 'string', enum: ['admin', 'member', 'guest'] },
+                    },
+                },
+            },
+        )
+
+        const diff = diffDocuments(base, head)
+        expect(diff.breaking).toBe(true)
+        expect(diff.changes).toEqual([
+            {
+                code: 'property-required',
+                breaking: true,
+                location: 'PUT /users/{id} request body application/json /name',
+                message: 'Property became required',
+            },
+            {
+                code: 'enum-widened',
+                breaking: false,
+                location: 'PUT /users/{id} request body application/json /role',
+                message: 'Enum values added: "guest"',
+            },
+            {
+                code: 'enum-widened',
+                breaking: true,
+                location: 'PUT /users/{id} response 200 application/json /role',
+                message: 'Enum values added: "guest"',
+            },
+        ])
+    })
+
+    it('should classify response changes', () => {
+        const base = makeDoc({})
+        const head = makeDoc({
+            responses: {
+                '204': { description: 'Updated' },
+            },
+        })
+
+        expect(codes(base, head)).toEqual([
+            ['response-removed', true],
+            ['response-added', false],
+        ])
+    })
+
+    it('should format breaking changes first', () => {
+        const base = makeDoc({})
+        const head = makeDoc({ responses: { '204': { description: 'Updated' } } })
+
+        expect(formatDiff(diffDocuments(base, head))).toBe(
+            [
+                'Breaking changes:',
+                '- PUT /users/{id} response 200: Response removed',
+                '',
+                'Non-breaking changes:',
+                '- PUT /users/{id} response 204: Response added',
+                '',
+            ].join('\n'),
+        )
+    })
+})
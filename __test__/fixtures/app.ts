@@ -0,0 +1,37 @@
+import * as express from 'express'
+import { Request, Response, Router } from 'express'
+
+import { ExpressOpenAPI } from '../../src/middleware'
+
+const openAPI = ExpressOpenAPI({
+    baseDoc: {
+        openapi: '3.0.0',
+        info: {
+            title: 'Fixture API',
+            version: '1.0.0',
+        },
+        paths: {},
+    },
+})
+const router = Router()
+
+router.get(
+    '/:id',
+    openAPI.path({
+        summary: 'Get user',
+        responses: {
+            '200': { description: 'Success' },
+        },
+    }),
+    (_req: Request, res: Response) => {
+        res.json({})
+    },
+)
+
+export const app = express()
+
+app.use(openAPI)
+app.use(...openAPI.asRouterArgs('/users', router))
+app.get('/health', (_req: Request, res: Response) => {
+    res.json({ status: 'ok' })
+})
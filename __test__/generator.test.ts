@@ -1,10 +1,17 @@
 import * as express from 'express'
 import * as supertest from 'supertest'
 import { Router, Request, Response, NextFunction } from 'express'
-import { OpenAPIV3 } from 'openapi-types'
+import { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types'
 
 import { OpenAPIGenerator } from '../src/generator'
-import { RouterRegistrationError, WildcardPathError } from '../src/errors'
+import { downgradeDocument, downgradeSchema } from '../src/convert'
+import {
+    DocumentLintError,
+    DuplicateComponentError,
+    RouterRegistrationError,
+    UnsupportedFeatureError,
+    WildcardPathError,
+} from '../src/errors'
 import { isParameterObject } from '../src/utils'
 
 describe('OpenAPIGenerator', () => {
@@ -158,6 +165,178 @@ describe('OpenAPIGenerator', () => {
 
             expect(() => generator.initializeDoc(router)).toThrow(WildcardPathError)
         })
+
+        it('should skip wildcard paths and report them as diagnostics', () => {
+            const gen = new OpenAPIGenerator(baseDoc, { wildcardPaths: 'skip' })
+            const router = Router()
+            const filesHandler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+            const usersHandler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+
+            gen.addSchema(filesHandler, { responses: { '200': { description: 'File' } } })
+            gen.addSchema(usersHandler, { responses: { '200': { description: 'Users' } } })
+            router.get('/files/*file', filesHandler)
+            router.get('/users', usersHandler)
+
+            const doc = gen.initializeDoc(router)
+            expect(Object.keys(doc.paths)).toEqual(['/users'])
+            expect(gen.getDiagnostics()).toEqual([
+                expect.objectContaining({
+                    code: 'INVALID_WILDCARD_PATH',
+                    method: 'get',
+                    path: '/files/*file',
+                }),
+            ])
+
+            // Diagnostics describe the latest generation only
+            gen.initializeDoc(Router())
+            expect(gen.getDiagnostics()).toEqual([])
+        })
+
+        it('should document wildcards as path parameters', () => {
+            const gen = new OpenAPIGenerator(baseDoc, { wildcardPaths: 'parameter' })
+            const router = Router()
+            const handler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+
+            gen.addSchema(handler, { responses: { '200': { description: 'File' } } })
+            router.get('/files/*file', handler)
+
+            const doc = gen.initializeDoc(router)
+            expect(doc.paths['/files/{file}']?.get?.parameters).toEqual([
+                {
+                    name: 'file',
+                    in: 'path',
+                    required: true,
+                    schema: { type: 'string' },
+                    description: 'Matches the rest of the path and may contain slashes',
+                },
+            ])
+        })
+
+        it('should let routes override the wildcard policy', () => {
+            const router = Router()
+            const handler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+
+            generator.addSchema(
+                handler,
+                { responses: { '200': { description: 'File' } } },
+                { wildcardPaths: 'parameter' },
+            )
+            router.get('/files/*file', handler)
+
+            const doc = generator.initializeDoc(router)
+            expect(doc.paths['/files/{file}']?.get).toBeDefined()
+        })
+
+        it('should infer schemas from the pathParameters option', () => {
+            const gen = new OpenAPIGenerator(baseDoc, {
+                pathParameters: { id: { type: 'integer', minimum: 1 } },
+            })
+            const router = Router()
+            const handler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+
+            gen.addSchema(handler, { responses: { '200': { description: 'Post' } } })
+            router.get('/users/:id/posts/:slug', handler)
+
+            const doc = gen.initializeDoc(router)
+            expect(doc.paths['/users/{id}/posts/{slug}']?.get?.parameters).toEqual([
+                { name: 'id', in: 'path', required: true, schema: { type: 'integer', minimum: 1 } },
+                { name: 'slug', in: 'path', required: true, schema: { type: 'string' } },
+            ])
+        })
+
+        it('should infer schemas from annotated param handlers of the route router', () => {
+            const gen = new OpenAPIGenerator(baseDoc, {
+                pathParameters: { id: { type: 'integer' } },
+            })
+            const router = Router()
+            const postsRouter = Router()
+            const handler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+            const loadUser = (_req: Request, _res: Response, next: NextFunction) => next()
+
+            gen.addSchema(handler, { responses: { '200': { description: 'User' } } })
+            gen.addParamSchema(loadUser, { type: 'string', format: 'uuid' })
+            router.param('id', loadUser)
+            router.get('/users/:id', handler)
+            gen.registerRouter(postsRouter, '/posts')
+            postsRouter.get('/:id', handler)
+            router.use('/posts', postsRouter)
+
+            const doc = gen.initializeDoc(router)
+            const schemaOf = (path: string) => {
+                const [param] = doc.paths[path]?.get?.parameters ?? []
+                return isParameterObject(param) ? param.schema : undefined
+            }
+            expect(schemaOf('/users/{id}')).toEqual({ type: 'string', format: 'uuid' })
+            // Param handlers are not inherited by mounted routers
+            expect(schemaOf('/posts/{id}')).toEqual({ type: 'integer' })
+        })
+
+        it('should deep merge partial declarations into inferred parameters', () => {
+            const gen = new OpenAPIGenerator(baseDoc, {
+                pathParameters: { id: { type: 'integer', format: 'int64' } },
+            })
+            const router = Router()
+            const handler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+
+            gen.addSchema(handler, {
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        description: 'User identifier',
+                        schema: { minimum: 1 },
+                    },
+                ],
+                responses: { '200': { description: 'User' } },
+            })
+            router.get('/users/:id', handler)
+
+            const doc = gen.initializeDoc(router)
+            expect(doc.paths['/users/{id}']?.get?.parameters).toEqual([
+                {
+                    name: 'id',
+                    in: 'path',
+                    required: true,
+                    description: 'User identifier',
+                    schema: { type: 'integer', format: 'int64', minimum: 1 },
+                },
+            ])
+        })
+
+        it('should replace inferred schemas by declared schemas with a type', () => {
+            const gen = new OpenAPIGenerator(baseDoc, {
+                pathParameters: { id: { type: 'string', format: 'uuid' } },
+            })
+            const router = Router()
+            const handler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+
+            gen.addSchema(handler, {
+                parameters: [{ name: 'id', in: 'path', schema: { type: 'integer' } }],
+                responses: { '200': { description: 'Item' } },
+            })
+            router.get('/items/:id', handler)
+
+            const doc = gen.initializeDoc(router)
+            expect(doc.paths['/items/{id}']?.get?.parameters).toEqual([
+                { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+            ])
+        })
     })
 
     describe('nested routers', () => {
@@ -194,6 +373,90 @@ describe('OpenAPIGenerator', () => {
             const doc = generator.getDocument()
             expect(doc.paths['/api/posts/{id}']?.get?.summary).toBe('Nested endpoint')
         })
+
+        it('should merge router defaults into nested operations', () => {
+            const handler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+            const tenantHeader: OpenAPIV3.ParameterObject = {
+                name: 'x-tenant',
+                in: 'header',
+                required: true,
+            }
+            const apiRouter = Router()
+            const adminRouter = Router()
+
+            generator.addSchema(handler, {
+                tags: ['users'],
+                security: [],
+                parameters: [{ name: 'x-tenant', in: 'header', required: false }],
+                responses: { '200': { description: 'Success' } },
+            })
+            adminRouter.get('/users', handler)
+            apiRouter.use('/admin', adminRouter)
+            generator.registerRouter(apiRouter, '/api', {
+                tags: ['api'],
+                security: [{ bearer: [] }],
+                parameters: [tenantHeader],
+                responses: { '500': { description: 'Server error' } },
+            })
+            generator.registerRouter(adminRouter, '/admin', {
+                tags: ['admin'],
+                deprecated: true,
+                responses: { '403': { description: 'Forbidden' } },
+            })
+            app.use('/api', apiRouter)
+
+            const doc = generator.generate(app)
+            expect(doc.paths['/api/admin/users']?.get).toEqual({
+                tags: ['api', 'admin', 'users'],
+                security: [],
+                deprecated: true,
+                parameters: [{ name: 'x-tenant', in: 'header', required: false }],
+                responses: {
+                    '200': { description: 'Success' },
+                    '403': { description: 'Forbidden' },
+                    '500': { description: 'Server error' },
+                },
+            })
+        })
+
+        it('should discover mount paths of unregistered routers', () => {
+            const gen = new OpenAPIGenerator(baseDoc, { discoverRouters: true })
+            const handler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+            const shopRouter = Router()
+            const ordersRouter = Router()
+            const healthRouter = Router()
+
+            gen.addSchema(handler, { responses: { '200': { description: 'Success' } } })
+            ordersRouter.get('/:orderId', handler)
+            healthRouter.get('/health', handler)
+            shopRouter.use('/orders/', ordersRouter)
+            app.use('/shop', shopRouter)
+            app.use(healthRouter)
+
+            const doc = gen.generate(app)
+            expect(Object.keys(doc.paths)).toEqual(['/shop/orders/{orderId}', '/health'])
+        })
+
+        it('should fall back to registered paths when discovery is ambiguous', () => {
+            const gen = new OpenAPIGenerator(baseDoc, { discoverRouters: true })
+            const handler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+            const router = Router()
+
+            gen.addSchema(handler, { responses: { '200': { description: 'Success' } } })
+            router.get('/items', handler)
+            app.use(['/store', '/shop'], router)
+
+            expect(() => gen.generate(app)).toThrow(RouterRegistrationError)
+
+            gen.registerRouter(router, '/store')
+            expect(Object.keys(gen.generate(app).paths)).toEqual(['/store/items'])
+        })
     })
     describe('middleware handling', () => {
         it('should handle routes with multiple middleware correctly', async () => {
@@ -285,6 +548,152 @@ describe('OpenAPIGenerator', () => {
             expect(doc.paths['/resource']?.put).toBeDefined()
             expect(doc.paths['/resource']?.delete).toBeDefined()
         })
+
+        it('should expand all() into every method', () => {
+            const router = Router()
+            const handler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+
+            generator.addSchema(handler, {
+                summary: 'Any',
+                responses: { '200': { description: 'OK' } },
+            })
+            router.all('/any', handler)
+
+            const doc = generator.initializeDoc(router)
+            expect(Object.keys(doc.paths['/any'] ?? {})).toEqual([
+                'get',
+                'post',
+                'put',
+                'patch',
+                'delete',
+            ])
+            expect(doc.paths['/any']?.patch?.summary).toBe('Any')
+        })
+
+        it('should expand all() into the configured methods', () => {
+            const gen = new OpenAPIGenerator(baseDoc, { allMethods: ['get', 'delete'] })
+            const router = Router()
+            const handler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+
+            gen.addSchema(handler, { responses: { '200': { description: 'OK' } } })
+            router.all('/any', handler)
+
+            const doc = gen.initializeDoc(router)
+            expect(Object.keys(doc.paths['/any'] ?? {})).toEqual(['get', 'delete'])
+        })
+
+        it('should give the methods of all() schemas their own operationIds', () => {
+            const gen = new OpenAPIGenerator(baseDoc, { allMethods: ['get', 'put'], lint: true })
+            const router = Router()
+            const handler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+
+            gen.addSchema(handler, {
+                operationId: 'item',
+                responses: { '200': { description: 'OK' } },
+            })
+            router.route('/items{/:id}').all(handler)
+
+            const doc = gen.initializeDoc(router)
+            expect(doc.paths['/items']?.get?.operationId).toBe('item')
+            expect(doc.paths['/items']?.put?.operationId).toBe('itemPut')
+            expect(doc.paths['/items/{id}']?.get?.operationId).toBe('item2')
+            expect(doc.paths['/items/{id}']?.put?.operationId).toBe('itemPut2')
+        })
+
+        it('should expand app.all() into the configured methods', () => {
+            const gen = new OpenAPIGenerator(baseDoc, { allMethods: ['get'] })
+            const handler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+
+            gen.addSchema(handler, { responses: { '200': { description: 'OK' } } })
+            app.all('/any', handler)
+
+            const doc = gen.generate(app)
+            // Express 5 registers a layer for every method, which must not end up in the document
+            expect(Object.keys(doc.paths['/any'] ?? {})).toEqual(['get'])
+        })
+
+        it('should document each method of a route() chain', () => {
+            const router = Router()
+            const shared = (_req: Request, _res: Response, next: NextFunction) => next()
+            const updateUser = (_req: Request, res: Response) => {
+                res.json({})
+            }
+            const handler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+
+            generator.addSchema(shared, {
+                summary: 'User',
+                responses: { '200': { description: 'OK' } },
+            })
+            generator.addSchema(updateUser, {
+                summary: 'Update user',
+                responses: { '204': { description: 'Updated' } },
+            })
+            router.route('/users/:id').all(shared).get(handler).put(updateUser).delete(handler)
+
+            const doc = generator.initializeDoc(router)
+            const pathItem = doc.paths['/users/{id}']
+            expect(Object.keys(pathItem ?? {})).toEqual(['get', 'put', 'delete'])
+            expect(pathItem?.get?.summary).toBe('User')
+            expect(pathItem?.put?.summary).toBe('Update user')
+            expect(pathItem?.delete?.summary).toBe('User')
+        })
+
+        it('should document every path of routes registered with several paths', () => {
+            const router = Router()
+            const getUser = (_req: Request, res: Response) => {
+                res.json({})
+            }
+            const deleteUser = (_req: Request, res: Response) => {
+                res.json({})
+            }
+
+            generator.addSchema(getUser, {
+                summary: 'Get',
+                responses: { '200': { description: 'OK' } },
+            })
+            generator.addSchema(deleteUser, {
+                summary: 'Delete',
+                responses: { '204': { description: 'Deleted' } },
+            })
+            router.route(['/users/:id', '/members/:id']).get(getUser).delete(deleteUser)
+
+            const doc = generator.initializeDoc(router)
+            ;['/users/{id}', '/members/{id}'].forEach(path => {
+                expect(doc.paths[path]?.get?.summary).toBe('Get')
+                expect(doc.paths[path]?.delete?.summary).toBe('Delete')
+            })
+        })
+
+        it('should record undocumented methods of partially documented routes', () => {
+            const router = Router()
+            const handler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+
+            generator.addSchema(handler, { responses: { '200': { description: 'OK' } } })
+            router
+                .route('/users')
+                .get(handler)
+                .post((_req, res) => {
+                    res.json({})
+                })
+
+            generator.initializeDoc(router)
+            expect(generator.getCoverage().routes).toEqual([
+                { method: 'get', path: '/users', documented: true },
+                { method: 'post', path: '/users', documented: false },
+            ])
+        })
     })
 
     describe('Path construction', () => {
@@ -377,5 +786,637 @@ describe('OpenAPIGenerator', () => {
 
             expect(() => generator.initializeDoc(router)).toThrow(WildcardPathError)
         })
+
+        it('should expand optional groups into separate paths', () => {
+            const router = Router()
+            const handler = (_req: Request, res: Response) => {
+                res.json({ message: 'success' })
+            }
+
+            const schema: OpenAPIV3.OperationObject = {
+                parameters: [
+                    { name: 'id', in: 'path', required: false, schema: { type: 'integer' } },
+                ],
+                responses: {
+                    '200': { description: 'Success' },
+                },
+            }
+
+            generator.addSchema(handler, schema)
+            router.get('/users{/:id}{.:format}', handler)
+
+            const doc = generator.initializeDoc(router)
+            expect(Object.keys(doc.paths)).toEqual([
+                '/users',
+                '/users.{format}',
+                '/users/{id}',
+                '/users/{id}.{format}',
+            ])
+            expect(doc.paths['/users']?.get?.parameters).toEqual([])
+            expect(doc.paths['/users/{id}.{format}']?.get?.parameters).toEqual([
+                { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+                { name: 'format', in: 'path', required: true, schema: { type: 'string' } },
+            ])
+        })
+
+        it('should number the operationIds of optional group expansions', () => {
+            const gen = new OpenAPIGenerator(baseDoc, { lint: true })
+            const router = Router()
+            const handler = (_req: Request, res: Response) => {
+                res.json({ message: 'success' })
+            }
+
+            gen.addSchema(handler, {
+                operationId: 'getUsers',
+                responses: { '200': { description: 'Success' } },
+            })
+            router.get('/users{/:id}', handler)
+
+            const doc = gen.initializeDoc(router)
+            expect(doc.paths['/users']?.get?.operationId).toBe('getUsers')
+            expect(doc.paths['/users/{id}']?.get?.operationId).toBe('getUsers2')
+        })
+    })
+
+    describe('YAML serialization', () => {
+        it('should emit keys in the conventional OpenAPI order', () => {
+            const gen = new OpenAPIGenerator({
+                paths: {},
+                info: { version: '1.0.0', title: 'Test API' },
+                openapi: '3.0.0',
+            })
+
+            const lines = [
+                'openapi: 3.0.0',
+                'info:',
+                '  title: Test API',
+                '  version: 1.0.0',
+                'paths: {}',
+            ]
+            expect(gen.toYAML()).toBe(lines.join('\n') + '\n')
+        })
+
+        it('should quote path keys and numeric-looking response codes', () => {
+            const router = Router()
+            const handler = (_req: Request, res: Response) => {
+                res.json({ message: 'success' })
+            }
+
+            generator.addSchema(handler, {
+                responses: {
+                    '200': { description: 'Success' },
+                },
+            })
+            router.get('/users/:id', handler)
+            generator.initializeDoc(router)
+
+            const yaml = generator.toYAML()
+            expect(yaml).toContain("\n  '/users/{id}':\n    get:\n")
+            expect(yaml).toContain("\n        '200':\n          description: Success\n")
+        })
+
+        it('should emit multiline descriptions as block scalars', () => {
+            const router = Router()
+            const handler = (_req: Request, res: Response) => {
+                res.json({ message: 'success' })
+            }
+
+            generator.addSchema(handler, {
+                description: 'First line\nSecond line: with colon',
+                responses: {
+                    default: { description: "It's fine" },
+                },
+            })
+            router.get('/test', handler)
+            generator.initializeDoc(router)
+
+            const yaml = generator.toYAML()
+            expect(yaml).toContain(
+                '      description: |-\n        First line\n        Second line: with colon\n',
+            )
+            expect(yaml).toContain("description: 'It''s fine'")
+        })
+    })
+
+    describe('eager generation', () => {
+        const schema: OpenAPIV3.OperationObject = {
+            summary: 'Get user',
+            responses: {
+                '200': { description: 'Success' },
+            },
+        }
+
+        it('should generate the document from an application', () => {
+            const handler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+            const router = Router()
+
+            generator.addSchema(handler, schema)
+            router.get('/:id', handler)
+            generator.registerRouter(router, '/users')
+            app.use('/users', router)
+
+            const doc = generator.generate(app)
+            expect(doc.paths['/users/{id}']?.get?.summary).toBe('Get user')
+        })
+
+        it('should be idempotent', () => {
+            const handler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+
+            baseDoc.paths['/health'] = { get: { responses: { '200': { description: 'OK' } } } }
+            generator = new OpenAPIGenerator(baseDoc)
+            generator.addSchema(handler, {
+                ...schema,
+                parameters: [{ name: 'id', in: 'path', description: 'User id' }],
+            })
+            app.get('/users/:id', handler)
+
+            const first = JSON.stringify(generator.generate(app))
+            const second = JSON.stringify(generator.generate(app))
+
+            expect(second).toBe(first)
+            expect(generator.getDocument().paths['/users/{id}']?.get?.parameters).toHaveLength(1)
+            expect(baseDoc.paths['/users/{id}']).toBeUndefined()
+            expect(Object.keys(baseDoc.paths['/health'] ?? {})).toEqual(['get'])
+        })
+    })
+
+    describe('components', () => {
+        const user: OpenAPIV3.SchemaObject = {
+            type: 'object',
+            properties: {
+                id: { type: 'integer' },
+                name: { type: 'string' },
+            },
+        }
+
+        const jsonContent = (schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject) => ({
+            'application/json': { schema },
+        })
+
+        it('should register components and reference them by name', () => {
+            const ref = generator.registerComponent('schemas', 'User', user)
+            generator.registerComponent('responses', 'NotFound', { description: 'Not found' })
+
+            expect(ref).toEqual({ $ref: '#/components/schemas/User' })
+            expect(generator.ref('responses', 'NotFound')).toEqual({
+                $ref: '#/components/responses/NotFound',
+            })
+
+            const doc = generator.initializeDoc(Router())
+            expect(doc.components?.schemas?.User).toEqual(user)
+            expect(doc.components?.responses?.NotFound).toEqual({ description: 'Not found' })
+        })
+
+        it('should reject conflicting registrations', () => {
+            generator.registerComponent('schemas', 'User', user)
+            expect(() => generator.registerComponent('schemas', 'User', user)).not.toThrow()
+            expect(() =>
+                generator.registerComponent('schemas', 'User', { type: 'string' }),
+            ).toThrow(DuplicateComponentError)
+        })
+
+        it('should hoist identical inline schemas into components', () => {
+            const gen = new OpenAPIGenerator(baseDoc, { hoistSchemas: true })
+            const router = Router()
+            const getHandler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+            const putHandler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+
+            gen.addSchema(getHandler, {
+                operationId: 'getUser',
+                responses: { '200': { description: 'User', content: jsonContent({ ...user }) } },
+            })
+            gen.addSchema(putHandler, {
+                operationId: 'updateUser',
+                requestBody: { content: jsonContent({ ...user }) },
+                responses: { '200': { description: 'User', content: jsonContent({ ...user }) } },
+            })
+            router.get('/users/:id', getHandler)
+            router.put('/users/:id', putHandler)
+
+            const doc = gen.initializeDoc(router)
+            const ref = { $ref: '#/components/schemas/GetUserResponse' }
+            const operation = doc.paths['/users/{id}']?.put
+
+            expect(doc.components?.schemas).toEqual({ GetUserResponse: user })
+            expect(doc.paths['/users/{id}']?.get?.responses['200']).toEqual({
+                description: 'User',
+                content: jsonContent(ref),
+            })
+            expect(operation?.requestBody).toEqual({ content: jsonContent(ref) })
+
+            // Generation is repeatable and yields the same names
+            expect(gen.initializeDoc(router).components?.schemas).toEqual({ GetUserResponse: user })
+        })
+
+        it('should replace inline schemas identical to registered ones', () => {
+            const gen = new OpenAPIGenerator(baseDoc, { hoistSchemas: true })
+            const router = Router()
+            const handler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+
+            gen.registerComponent('schemas', 'User', user)
+            gen.addSchema(handler, {
+                responses: {
+                    '200': {
+                        description: 'Users',
+                        content: jsonContent({ type: 'array', items: { ...user } }),
+                    },
+                },
+            })
+            router.get('/users', handler)
+
+            const doc = gen.initializeDoc(router)
+            expect(doc.paths['/users']?.get?.responses['200']).toEqual({
+                description: 'Users',
+                content: jsonContent({
+                    type: 'array',
+                    items: { $ref: '#/components/schemas/User' },
+                }),
+            })
+        })
+    })
+
+    describe('OpenAPI 3.1', () => {
+        const baseDoc31: OpenAPIV3_1.Document = {
+            openapi: '3.1.0',
+            info: { title: 'Test API', version: '1.0.0' },
+            paths: {},
+            servers: [{ url: '/api/v1' }],
+        }
+
+        it('should emit 3.1 documents with JSON Schema keywords', () => {
+            const gen = new OpenAPIGenerator(baseDoc31)
+            const router = Router()
+            const handler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+            const schema: OpenAPIV3_1.SchemaObject = {
+                type: ['string', 'null'],
+                examples: ['a'],
+            }
+
+            gen.addSchema(handler, {
+                responses: {
+                    '200': { description: 'Name', content: { 'application/json': { schema } } },
+                },
+            })
+            router.get('/name', handler)
+
+            const doc = gen.initializeDoc(router)
+            expect(doc.openapi).toBe('3.1.0')
+            expect(doc.paths?.['/name']?.get?.responses?.['200']).toEqual({
+                description: 'Name',
+                content: { 'application/json': { schema } },
+            })
+        })
+
+        it('should declare webhooks and path item components only for 3.1', () => {
+            const gen = new OpenAPIGenerator(baseDoc31)
+            const pathItem = { post: { responses: { '200': { description: 'OK' } } } }
+
+            gen.addWebhook('newUser', pathItem)
+            gen.registerComponent('pathItems', 'Ping', pathItem)
+
+            const doc = gen.initializeDoc(Router())
+            expect(doc.webhooks).toEqual({ newUser: pathItem })
+            expect(doc.components?.pathItems).toEqual({ Ping: pathItem })
+
+            expect(() => generator.addWebhook('newUser', pathItem)).toThrow(UnsupportedFeatureError)
+            expect(() => generator.registerComponent('pathItems', 'Ping', pathItem)).toThrow(
+                UnsupportedFeatureError,
+            )
+        })
+
+        it('should downgrade 3.1 schemas to 3.0', () => {
+            expect(downgradeSchema({ type: ['string', 'null'] })).toEqual({
+                type: 'string',
+                nullable: true,
+            })
+            expect(downgradeSchema({ type: ['string', 'integer'] })).toEqual({
+                anyOf: [{ type: 'string' }, { type: 'integer' }],
+            })
+            expect(downgradeSchema({ type: 'number', exclusiveMinimum: 0 } as any)).toEqual({
+                type: 'number',
+                minimum: 0,
+                exclusiveMinimum: true,
+            })
+            expect(downgradeSchema({ const: 'admin', examples: ['admin'] })).toEqual({
+                enum: ['admin'],
+                example: 'admin',
+            })
+            expect(
+                downgradeSchema({
+                    type: 'object',
+                    properties: { tags: { type: 'array', items: { type: ['string', 'null'] } } },
+                }),
+            ).toEqual({
+                type: 'object',
+                properties: { tags: { type: 'array', items: { type: 'string', nullable: true } } },
+            })
+        })
+
+        it('should downgrade 3.1 documents to 3.0', () => {
+            const doc = downgradeDocument({
+                ...baseDoc31,
+                info: { title: 'Test API', version: '1.0.0', summary: 'Tests' },
+                webhooks: { newUser: {} },
+                paths: {
+                    '/users': {
+                        get: {
+                            responses: {
+                                '200': { $ref: '#/components/responses/Users', summary: 'Users' },
+                            },
+                        },
+                    },
+                },
+                components: {
+                    pathItems: { Ping: {} },
+                    schemas: { Id: { type: ['integer', 'null'], const: 1 } },
+                },
+            })
+
+            expect(doc.openapi).toBe('3.0.3')
+            expect(doc.info).toEqual({ title: 'Test API', version: '1.0.0' })
+            expect(doc).not.toHaveProperty('webhooks')
+            expect(doc.components).toEqual({
+                schemas: { Id: { type: 'integer', nullable: true, enum: [1] } },
+            })
+
+            const operation = doc.paths['/users']?.get
+            expect(operation?.responses['200']).toEqual({ $ref: '#/components/responses/Users' })
+        })
+    })
+
+    describe('coverage', () => {
+        const schema: OpenAPIV3.OperationObject = {
+            responses: { '200': { description: 'Success' } },
+        }
+        const handler = (_req: Request, res: Response) => {
+            res.json({})
+        }
+
+        it('should report documented and undocumented routes', () => {
+            const router = Router()
+
+            generator.addSchema(handler, schema)
+            router.get('/users', handler, handler)
+            const undocumented = (_req: Request, res: Response) => {
+                res.json({})
+            }
+            router.get('/health', undocumented)
+            router.route('/items{/:id}').put(undocumented).delete(undocumented)
+
+            const doc = generator.initializeDoc(router)
+            expect(Object.keys(doc.paths)).toEqual(['/users'])
+            expect(generator.getCoverage()).toEqual({
+                total: 6,
+                documented: 1,
+                percentage: (1 / 6) * 100,
+                routes: [
+                    { method: 'get', path: '/users', documented: true },
+                    { method: 'get', path: '/health', documented: false },
+                    { method: 'put', path: '/items', documented: false },
+                    { method: 'put', path: '/items/{id}', documented: false },
+                    { method: 'delete', path: '/items', documented: false },
+                    { method: 'delete', path: '/items/{id}', documented: false },
+                ],
+            })
+        })
+
+        it('should document undocumented routes as stubs when enabled', () => {
+            const gen = new OpenAPIGenerator(baseDoc, { includeUndocumented: true })
+            const router = Router()
+            router.post('/users/:id', handler)
+
+            const doc = gen.initializeDoc(router)
+            expect(doc.paths['/users/{id}']?.post).toEqual({
+                parameters: [
+                    { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+                ],
+                responses: { default: { description: 'Undocumented' } },
+                'x-undocumented': true,
+            })
+            expect(gen.getCoverage().percentage).toBe(0)
+        })
+    })
+
+    describe('linting', () => {
+        const handler = (_req: Request, res: Response) => {
+            res.json({})
+        }
+
+        function lintApp(gen: OpenAPIGenerator) {
+            const router = Router()
+            const getUser = (_req: Request, res: Response) => {
+                res.json({})
+            }
+            const updateUser = (_req: Request, res: Response) => {
+                res.json({})
+            }
+            gen.addSchema(handler, { responses: { '200': { description: 'Users' } } })
+            gen.addSchema(getUser, {
+                operationId: 'getUser',
+                parameters: [{ name: 'userId', in: 'path', required: true }],
+                responses: {
+                    '200': { $ref: '#/components/responses/User' },
+                    '404': {} as OpenAPIV3.ResponseObject,
+                },
+            })
+            gen.addSchema(updateUser, {
+                operationId: 'getUser',
+                responses: { '200': { description: 'User' } },
+            })
+            gen.registerRouter(router, '/users')
+            router.get('/', handler)
+            router.get('/:id', getUser)
+            router.put('/:id', updateUser)
+
+            const root = Router()
+            root.use('/users', router)
+            return root
+        }
+
+        it('should report findings as structured diagnostics', () => {
+            const gen = new OpenAPIGenerator(baseDoc, {
+                lint: { rules: { 'unique-operation-id': 'warn', 'response-description': 'warn' } },
+            })
+            const router = lintApp(gen)
+
+            expect(() => gen.initializeDoc(router)).toThrow(DocumentLintError)
+            expect(gen.getLintResults()).toEqual([
+                {
+                    code: 'operation-id',
+                    rule: 'operation-id',
+                    severity: 'warn',
+                    message: 'Operation has no operationId',
+                    method: 'get',
+                    path: '/users/',
+                    route: '/users/',
+                    router: 'router',
+                },
+                expect.objectContaining({
+                    rule: 'unique-operation-id',
+                    severity: 'warn',
+                    message: 'operationId "getUser" is already used by GET /users/{id}',
+                    method: 'put',
+                    path: '/users/{id}',
+                    route: '/users/:id',
+                }),
+                expect.objectContaining({
+                    rule: 'response-description',
+                    message: 'Response 404 has no description',
+                    method: 'get',
+                }),
+                expect.objectContaining({
+                    rule: 'path-parameters',
+                    severity: 'error',
+                    message: 'Path parameter "userId" is not part of the route',
+                }),
+                expect.objectContaining({
+                    rule: 'resolvable-refs',
+                    severity: 'error',
+                    message: 'Reference "#/components/responses/User" cannot be resolved',
+                    method: 'get',
+                    path: '/users/{id}',
+                }),
+            ])
+        })
+
+        it('should fail generation with the error findings', () => {
+            const gen = new OpenAPIGenerator(baseDoc, { lint: true })
+            const router = lintApp(gen)
+
+            const message = '- unique-operation-id: PUT "/users/:id" in router "router"'
+            expect(() => gen.initializeDoc(router)).toThrow(message)
+        })
+
+        it('should run custom rules and turn rules off', () => {
+            const gen = new OpenAPIGenerator(baseDoc, {
+                lint: {
+                    rules: { 'operation-id': 'off' },
+                    custom: [
+                        {
+                            name: 'tags',
+                            severity: 'warn',
+                            check: (_doc, operations) =>
+                                operations
+                                    .filter(op => !op.operation.tags?.length)
+                                    .map(op => ({
+                                        message: 'Operation has no tags',
+                                        operation: op,
+                                    })),
+                        },
+                    ],
+                },
+            })
+            const router = Router()
+            gen.addSchema(handler, { responses: { '200': { description: 'Users' } } })
+            router.get('/users', handler)
+
+            expect(gen.initializeDoc(router).paths['/users']).toBeDefined()
+            expect(gen.getLintResults()).toEqual([
+                {
+                    code: 'tags',
+                    rule: 'tags',
+                    severity: 'warn',
+                    message: 'Operation has no tags',
+                    method: 'get',
+                    path: '/users',
+                    route: '/users',
+                    router: undefined,
+                },
+            ])
+        })
+    })
+
+    describe('operationIds', () => {
+        const schema: OpenAPIV3.OperationObject = {
+            responses: { '200': { description: 'Success' } },
+        }
+
+        function operationIdApp(gen: OpenAPIGenerator) {
+            const router = Router()
+            const document = (_req: Request, _res: Response, next: NextFunction) => next()
+            const listUsers = (_req: Request, res: Response) => {
+                res.json([])
+            }
+            const findUser = (_req: Request, res: Response) => {
+                res.json({})
+            }
+            gen.addSchema(document, schema)
+            router.get('/users', document, listUsers)
+            router.get('/users/:userId{/posts}', document, findUser)
+            router.post('/users', document, (_req: Request, res: Response) => {
+                res.json({})
+            })
+            return router
+        }
+
+        const operationIds = (doc: OpenAPIV3.Document) =>
+            Object.entries(doc.paths).flatMap(([path, pathItem]) =>
+                Object.entries(pathItem ?? {}).map(([method, operation]) => {
+                    const { operationId } = operation as OpenAPIV3.OperationObject
+                    return `${method} ${path} ${operationId}`
+                }),
+            )
+
+        it('should derive operationIds from methods and paths', () => {
+            const gen = new OpenAPIGenerator(baseDoc, { operationIds: true })
+
+            expect(operationIds(gen.initializeDoc(operationIdApp(gen)))).toEqual([
+                'get /users getUsers',
+                'post /users postUsers',
+                'get /users/{userId} getUsersByUserId',
+                'get /users/{userId}/posts getUsersByUserIdPosts',
+            ])
+        })
+
+        it('should number colliding operationIds without renaming declared ones', () => {
+            const health: OpenAPIV3.PathItemObject = { get: schema }
+            const status: OpenAPIV3.PathItemObject = {
+                get: { ...schema, operationId: 'list_users' },
+            }
+            const gen = new OpenAPIGenerator<OpenAPIV3.Document>(
+                { ...baseDoc, paths: { '/health': health, '/status': status } },
+                { operationIds: { naming: 'snake_case', useHandlerNames: true } },
+            )
+
+            expect(operationIds(gen.initializeDoc(operationIdApp(gen)))).toEqual([
+                'get /health get_health',
+                'get /status list_users',
+                'get /users list_users_2',
+                'post /users post_users',
+                'get /users/{userId} find_user',
+                'get /users/{userId}/posts find_user_2',
+            ])
+            expect(health.get?.operationId).toBeUndefined()
+            expect(operationIds(gen.initializeDoc(operationIdApp(gen)))[2]).toBe(
+                'get /users list_users_2',
+            )
+        })
+
+        it('should accept a custom naming function', () => {
+            const gen = new OpenAPIGenerator(baseDoc, {
+                operationIds: {
+                    naming: ({ method, path, handlerName }) => handlerName ?? `${method}:${path}`,
+                },
+            })
+
+            expect(operationIds(gen.initializeDoc(operationIdApp(gen)))).toEqual([
+                'get /users listUsers',
+                'post /users post:/users',
+                'get /users/{userId} findUser',
+                'get /users/{userId}/posts findUser2',
+            ])
+        })
     })
 })
@@ -1,7 +1,7 @@
 import * as express from 'express'
 import * as supertest from 'supertest'
 import { Router, Request, Response } from 'express'
-import { OpenAPIV3 } from 'openapi-types'
+import { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types'
 
 import { ExpressOpenAPI } from '../src/middleware'
 import { OpenAPIOptions } from '../src/types'
@@ -93,6 +93,27 @@ describe('ExpressOpenAPI Middleware', () => {
         })
     })
 
+    describe('generate method', () => {
+        it('should populate the document before the first request', () => {
+            const openAPI = ExpressOpenAPI(options)
+            const router = Router()
+
+            router.get(
+                '/test',
+                openAPI.path({ summary: 'Test endpoint', responses: {} }),
+                (_req: Request, res: Response) => {
+                    res.json({})
+                },
+            )
+            app.use(openAPI)
+            app.use(...openAPI.asRouterArgs('/api', router))
+
+            openAPI.generate(app)
+
+            expect(openAPI.document.paths['api/test']?.get?.summary).toBe('Test endpoint')
+        })
+    })
+
     describe('asRouterArgs method', () => {
         it('should register router and return path and router tuple', () => {
             const openAPI = ExpressOpenAPI(options)
@@ -178,6 +199,36 @@ describe('ExpressOpenAPI Middleware', () => {
         })
     })
 
+    describe('param method', () => {
+        it('should document the schema of annotated param handlers', async () => {
+            const openAPI = ExpressOpenAPI(options)
+            const loaded: string[] = []
+
+            app.use(openAPI)
+            app.param(
+                'id',
+                openAPI.param({ type: 'integer' }, (_req, _res, next, id) => {
+                    loaded.push(id)
+                    next()
+                }),
+            )
+            app.get(
+                '/users/:id',
+                openAPI.path({ responses: { '200': { description: 'User' } } }),
+                (_req: Request, res: Response) => {
+                    res.json({})
+                },
+            )
+
+            await supertest(app).get('/users/7').expect(200)
+
+            expect(loaded).toEqual(['7'])
+            expect(openAPI.document.paths['users/{id}']?.get?.parameters).toEqual([
+                { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+            ])
+        })
+    })
+
     describe('complex routing scenarios', () => {
         it('should handle nested routers with multiple middleware', async () => {
             const openAPI = ExpressOpenAPI(options)
@@ -220,4 +271,871 @@ describe('ExpressOpenAPI Middleware', () => {
             expect(openAPI.document.paths['api/users/']?.post?.summary).toBe('Create user')
         })
     })
+
+    describe('request validation', () => {
+        const schema: OpenAPIV3.OperationObject = {
+            parameters: [
+                { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+                { name: 'verbose', in: 'query', schema: { type: 'boolean' } },
+                { name: 'x-tenant', in: 'header', required: true, schema: { type: 'string' } },
+            ],
+            requestBody: {
+                required: true,
+                content: {
+                    'application/json': {
+                        schema: { $ref: '#/components/schemas/User' },
+                    },
+                },
+            },
+            responses: {
+                '204': {
+                    description: 'Updated',
+                },
+            },
+        }
+
+        beforeEach(() => {
+            baseDoc.components = {
+                schemas: {
+                    User: {
+                        type: 'object',
+                        required: ['name'],
+                        properties: {
+                            name: { type: 'string', minLength: 1 },
+                            age: { type: 'integer', minimum: 0 },
+                        },
+                    },
+                },
+            }
+        })
+
+        it('should pass valid requests through to the handler', async () => {
+            const openAPI = ExpressOpenAPI({ ...options, validateRequests: true })
+
+            app.use(express.json())
+            app.put('/users/:id', openAPI.path(schema), (_req: Request, res: Response) => {
+                res.status(204).send()
+            })
+
+            await supertest(app)
+                .put('/users/42?verbose=true')
+                .set('x-tenant', 'acme')
+                .send({ name: 'Ada', age: 36 })
+                .expect(204)
+        })
+
+        it('should respond with 400 listing every violation', async () => {
+            const openAPI = ExpressOpenAPI({ ...options, validateRequests: true })
+
+            app.use(express.json())
+            app.put('/users/:id', openAPI.path(schema), (_req: Request, res: Response) => {
+                res.status(204).send()
+            })
+
+            const res = await supertest(app)
+                .put('/users/abc?verbose=maybe')
+                .send({ age: -1 })
+                .expect(400)
+
+            expect(res.body.code).toBe('REQUEST_VALIDATION_FAILED')
+            expect(res.body.errors).toEqual(
+                expect.arrayContaining([
+                    expect.objectContaining({ in: 'path', name: 'id' }),
+                    expect.objectContaining({ in: 'query', name: 'verbose' }),
+                    expect.objectContaining({ in: 'header', name: 'x-tenant' }),
+                    expect.objectContaining({ in: 'body', path: '/name', message: 'is required' }),
+                    expect.objectContaining({ in: 'body', path: '/age' }),
+                ]),
+            )
+        })
+
+        it('should not validate when the option is disabled', async () => {
+            const openAPI = ExpressOpenAPI(options)
+
+            app.put('/users/:id', openAPI.path(schema), (_req: Request, res: Response) => {
+                res.status(204).send()
+            })
+
+            await supertest(app).put('/users/abc').expect(204)
+        })
+
+        it('should validate against the generated operation', async () => {
+            const openAPI = ExpressOpenAPI({
+                ...options,
+                validateRequests: true,
+                pathParameters: { id: { type: 'integer' } },
+            })
+            const router = Router()
+            const ok = (_req: Request, res: Response) => {
+                res.json({})
+            }
+
+            router.get('/:id', openAPI.path({ responses: { '200': { description: 'Item' } } }), ok)
+            app.use(openAPI)
+            app.use(
+                ...openAPI.asRouterArgs('/items', router, {
+                    parameters: [{ name: 'x-tenant', in: 'header', required: true }],
+                }),
+            )
+
+            await supertest(app).get('/items/7').set('x-tenant', 'acme').expect(200)
+            const res = await supertest(app).get('/items/abc').expect(400)
+            expect(res.body.errors).toEqual([
+                expect.objectContaining({ in: 'path', name: 'id' }),
+                expect.objectContaining({ in: 'header', name: 'x-tenant', message: 'is required' }),
+            ])
+        })
+
+        it('should read path parameters of parameterized mount paths from the URL', async () => {
+            const openAPI = ExpressOpenAPI({
+                ...options,
+                validateRequests: true,
+                coerceParameters: true,
+                pathParameters: { id: { type: 'integer' } },
+            })
+            const router = Router()
+
+            router.get(
+                '/members/:id',
+                openAPI.path({ responses: { '200': { description: 'Member' } } }),
+                (req: Request, res: Response) => {
+                    res.json({ params: req.params })
+                },
+            )
+            app.use(openAPI)
+            app.use(...openAPI.asRouterArgs('/orgs/:orgId', router))
+
+            const res = await supertest(app).get('/orgs/acme/members/5').expect(200)
+            expect(res.body.params).toEqual({ orgId: 'acme', id: 5 })
+            await supertest(app).get('/orgs/acme/members/abc').expect(400)
+        })
+
+        it('should validate JSON Schema keywords of 3.1 documents', async () => {
+            const baseDoc31: OpenAPIV3_1.Document = {
+                openapi: '3.1.0',
+                info: { title: 'Test API', version: '1.0.0' },
+                paths: {},
+            }
+            const openAPI = ExpressOpenAPI({ baseDoc: baseDoc31, validateRequests: true })
+
+            app.use(express.json())
+            app.post(
+                '/scores',
+                openAPI.path({
+                    requestBody: {
+                        required: true,
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        label: { type: ['string', 'null'] },
+                                        score: { type: 'number', exclusiveMinimum: 0 },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    responses: { '204': { description: 'Created' } },
+                }),
+                (_req: Request, res: Response) => {
+                    res.status(204).send()
+                },
+            )
+
+            await supertest(app).post('/scores').send({ label: null, score: 1 }).expect(204)
+            const res = await supertest(app)
+                .post('/scores')
+                .send({ label: 1, score: 0 })
+                .expect(400)
+            expect(res.body.errors).toEqual([
+                expect.objectContaining({
+                    path: '/label',
+                    message: 'must be of type string or null',
+                }),
+                expect.objectContaining({ path: '/score', message: 'must be > 0' }),
+            ])
+        })
+    })
+
+    describe('response validation', () => {
+        const schema: OpenAPIV3.OperationObject = {
+            responses: {
+                '200': {
+                    description: 'Success',
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['id'],
+                                properties: { id: { type: 'integer' } },
+                            },
+                        },
+                    },
+                },
+            },
+        }
+
+        it('should let matching responses through', async () => {
+            const openAPI = ExpressOpenAPI({ ...options, validateResponses: true })
+
+            app.get('/users/:id', openAPI.path(schema), (_req: Request, res: Response) => {
+                res.json({ id: 1 })
+            })
+
+            await supertest(app).get('/users/1').expect(200, { id: 1 })
+        })
+
+        it('should throw on mismatching responses by default', async () => {
+            const openAPI = ExpressOpenAPI({ ...options, validateResponses: true })
+
+            app.get('/users/:id', openAPI.path(schema), (_req: Request, res: Response) => {
+                res.json({ id: 'one' })
+            })
+            app.get('/missing', openAPI.path(schema), (_req: Request, res: Response) => {
+                res.status(404).send()
+            })
+
+            await supertest(app).get('/users/1').expect(500)
+
+            // Express keeps error status codes that were already set on the response
+            const res = await supertest(app).get('/missing').expect(404)
+            expect(res.text).toContain('status code 404 is not documented')
+        })
+
+        it('should log mismatching responses', async () => {
+            const openAPI = ExpressOpenAPI({ ...options, validateResponses: { onError: 'log' } })
+            const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+            app.get('/users/:id', openAPI.path(schema), (_req: Request, res: Response) => {
+                res.send({ name: 'Ada' })
+            })
+
+            await supertest(app).get('/users/1').expect(200)
+
+            expect(warnSpy).toHaveBeenCalledTimes(1)
+            expect(warnSpy.mock.calls[0][0]).toContain('/id: is required')
+            warnSpy.mockRestore()
+        })
+
+        it('should emit mismatching responses on the app', async () => {
+            const openAPI = ExpressOpenAPI({ ...options, validateResponses: { onError: 'emit' } })
+            const listener = jest.fn()
+            app.on('responseValidationError', listener)
+
+            app.get('/users/:id', openAPI.path(schema), (_req: Request, res: Response) => {
+                res.status(201).json({ id: 1 })
+            })
+
+            await supertest(app).get('/users/1').expect(201)
+
+            expect(listener).toHaveBeenCalledWith(
+                expect.objectContaining({ code: 'RESPONSE_VALIDATION_FAILED' }),
+                expect.anything(),
+                expect.anything(),
+            )
+        })
+    })
+
+    describe('parameter coercion', () => {
+        const schema: OpenAPIV3.OperationObject = {
+            parameters: [
+                { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+                { name: 'active', in: 'query', schema: { type: 'boolean' } },
+                { name: 'since', in: 'query', schema: { type: 'string', format: 'date-time' } },
+                { name: 'limit', in: 'query', schema: { type: 'integer', default: 20 } },
+                {
+                    name: 'ids',
+                    in: 'query',
+                    schema: { type: 'array', items: { type: 'integer' } },
+                },
+                {
+                    name: 'sort',
+                    in: 'query',
+                    style: 'pipeDelimited',
+                    explode: false,
+                    schema: { type: 'array', items: { type: 'string' } },
+                },
+                {
+                    name: 'fields',
+                    in: 'query',
+                    style: 'spaceDelimited',
+                    explode: false,
+                    schema: { type: 'array', items: { type: 'string' } },
+                },
+                {
+                    name: 'filter',
+                    in: 'query',
+                    style: 'deepObject',
+                    schema: {
+                        type: 'object',
+                        properties: { role: { type: 'string' }, age: { type: 'integer' } },
+                    },
+                },
+            ],
+            responses: { '200': { description: 'Users' } },
+        }
+
+        function coercingApp(opts: Partial<OpenAPIOptions>) {
+            const openAPI = ExpressOpenAPI({ ...options, coerceParameters: true, ...opts })
+            app.get('/users/:id', openAPI.path(schema), (req: Request, res: Response) => {
+                const { since } = req.query as Record<string, unknown>
+                res.json({
+                    params: req.params,
+                    query: req.query,
+                    since: since instanceof Date ? since.toISOString() : since,
+                })
+            })
+            return openAPI
+        }
+
+        it('should convert parameters to their declared types', async () => {
+            coercingApp({})
+
+            const res = await supertest(app)
+                .get('/users/7?active=false&since=2024-01-02T03:04:05Z&ids=1&ids=2')
+                .expect(200)
+
+            expect(res.body.params).toEqual({ id: 7 })
+            expect(res.body.query).toMatchObject({ active: false, ids: [1, 2] })
+            expect(res.body.since).toBe('2024-01-02T03:04:05.000Z')
+        })
+
+        it('should apply defaults of missing parameters', async () => {
+            coercingApp({})
+
+            const res = await supertest(app).get('/users/7').expect(200)
+
+            expect(res.body.query).toEqual({ limit: 20 })
+        })
+
+        it('should deserialize parameters according to their style', async () => {
+            coercingApp({})
+
+            const res = await supertest(app)
+                .get('/users/7?sort=name|age&fields=id%20name&filter[role]=admin&filter[age]=30')
+                .expect(200)
+
+            expect(res.body.query).toEqual({
+                limit: 20,
+                sort: ['name', 'age'],
+                fields: ['id', 'name'],
+                filter: { role: 'admin', age: 30 },
+            })
+        })
+
+        it('should coerce with the operation of the matched route', async () => {
+            const openAPI = ExpressOpenAPI({
+                ...options,
+                coerceParameters: true,
+                pathParameters: { id: { type: 'integer' }, slug: { type: 'integer' } },
+            })
+            const users = openAPI.path({ responses: { '200': { description: 'Users' } } })
+            const handler = (req: Request, res: Response) => {
+                res.json(req.params)
+            }
+
+            app.use(openAPI)
+            app.get('/users{/:id}', users, handler)
+            app.get('/posts/:slug', users, handler)
+
+            await supertest(app).get('/users').expect(200, {})
+            await supertest(app).get('/users/5').expect(200, { id: 5 })
+            await supertest(app).get('/posts/6').expect(200, { slug: 6 })
+        })
+
+        it('should validate deserialized values', async () => {
+            coercingApp({ validateRequests: true })
+
+            await supertest(app).get('/users/7?filter[age]=old').expect(400)
+            await supertest(app).get('/users/7?ids=1&ids=2&filter[age]=30').expect(200)
+        })
+
+        it('should leave parameters untouched when disabled', async () => {
+            coercingApp({ coerceParameters: false })
+
+            const res = await supertest(app).get('/users/7?active=true').expect(200)
+
+            expect(res.body.params).toEqual({ id: '7' })
+            expect(res.body.query).toEqual({ active: 'true' })
+        })
+    })
+
+    describe('hot regeneration', () => {
+        const ok = (_req: Request, res: Response) => {
+            res.json({})
+        }
+
+        it('should document routes added after the first request', async () => {
+            const openAPI = ExpressOpenAPI(options)
+            const plugin = Router()
+
+            app.use(openAPI)
+            app.get('/users', openAPI.path({ responses: { '200': { description: 'Users' } } }), ok)
+
+            await supertest(app).get('/users').expect(200)
+            expect(Object.keys(openAPI.document.paths)).toEqual(['users'])
+
+            const posts = openAPI.path({ responses: { '200': { description: 'Posts' } } })
+            plugin.get('/posts', posts, ok)
+            app.use(...openAPI.asRouterArgs('/plugin', plugin))
+            await supertest(app).get('/users').expect(200)
+            expect(Object.keys(openAPI.document.paths)).toEqual(['users', 'plugin/posts'])
+
+            // Routes added to an already mounted router are picked up as well
+            plugin.get('/tags', openAPI.path({ responses: { '200': { description: 'Tags' } } }), ok)
+            await supertest(app).get('/plugin/tags').expect(200)
+            expect(openAPI.document.paths['plugin/tags']).toBeDefined()
+        })
+
+        it('should report new document versions with an ETag', async () => {
+            const onDocumentChange = jest.fn()
+            const openAPI = ExpressOpenAPI({ ...options, docPrefix: '/docs', onDocumentChange })
+
+            app.use(openAPI)
+            app.get('/users', openAPI.path({ responses: { '200': { description: 'Users' } } }), ok)
+
+            await supertest(app).get('/users').expect(200)
+            await supertest(app).get('/users').expect(200)
+            expect(onDocumentChange).toHaveBeenCalledTimes(1)
+            const [{ document, etag }] = onDocumentChange.mock.calls[0]
+            expect(document.paths.users).toBeDefined()
+            expect(etag).toBe(openAPI.etag)
+
+            app.get('/posts', openAPI.path({ responses: { '200': { description: 'Posts' } } }), ok)
+            await supertest(app).get('/users').expect(200)
+            expect(onDocumentChange).toHaveBeenCalledTimes(2)
+            expect(onDocumentChange.mock.calls[1][0].etag).not.toBe(etag)
+
+            // Routes without a schema change the stack but not the document
+            app.get('/health', ok)
+            await supertest(app).get('/users').expect(200)
+            expect(onDocumentChange).toHaveBeenCalledTimes(2)
+        })
+
+        it('should keep the first document when watching is disabled', async () => {
+            const openAPI = ExpressOpenAPI({ ...options, watchRoutes: false })
+
+            app.use(openAPI)
+            app.get('/users', openAPI.path({ responses: { '200': { description: 'Users' } } }), ok)
+            await supertest(app).get('/users').expect(200)
+
+            app.get('/posts', openAPI.path({ responses: { '200': { description: 'Posts' } } }), ok)
+            await supertest(app).get('/posts').expect(200)
+            expect(Object.keys(openAPI.document.paths)).toEqual(['users'])
+        })
+    })
+
+    describe('documentation serving', () => {
+        beforeEach(() => {
+            const openAPI = ExpressOpenAPI({ ...options, docPrefix: '/docs' })
+            app.use(openAPI)
+            app.get(
+                '/users/:id',
+                openAPI.path({
+                    summary: 'Get user',
+                    responses: { '200': { description: 'Success' } },
+                }),
+                (_req: Request, res: Response) => {
+                    res.json({})
+                },
+            )
+        })
+
+        it('should serve the document as JSON', async () => {
+            const res = await supertest(app)
+                .get('/docs/openapi.json')
+                .expect('Content-Type', /application\/json/)
+                .expect('Cache-Control', 'no-cache')
+                .expect(200)
+
+            expect(res.body.paths['users/{id}'].get.summary).toBe('Get user')
+        })
+
+        it('should serve the document as YAML', async () => {
+            const res = await supertest(app)
+                .get('/docs/openapi.yaml')
+                .expect('Content-Type', /application\/yaml/)
+                .expect(200)
+
+            expect(res.text).toContain('openapi: 3.0.0')
+            expect(res.text).toContain('summary: Get user')
+        })
+
+        it('should serve a self-contained HTML viewer', async () => {
+            const res = await supertest(app)
+                .get('/docs')
+                .expect('Content-Type', /text\/html/)
+                .expect(200)
+
+            expect(res.text).toContain('<title>Test API</title>')
+            expect(res.text).not.toMatch(/<script[^>]+src=/)
+            expect(res.text).not.toMatch(/<link[^>]+href=/)
+        })
+
+        it('should answer conditional requests with 304', async () => {
+            const first = await supertest(app).get('/docs/openapi.json').expect(200)
+
+            await supertest(app)
+                .get('/docs/openapi.json')
+                .set('If-None-Match', first.headers.etag)
+                .expect(304)
+        })
+    })
+
+    describe('security method', () => {
+        const schema: OpenAPIV3.OperationObject = {
+            responses: { '200': { description: 'Success' } },
+        }
+        const verify = (token: string) => (token === 'secret' ? { id: 1 } : undefined)
+
+        it('should authenticate requests with the verify function', async () => {
+            const openAPI = ExpressOpenAPI(options)
+            const bearer = openAPI.security('bearer', { type: 'http', scheme: 'bearer' }, verify)
+
+            app.get('/me', bearer, openAPI.path(schema), (req: Request, res: Response) => {
+                res.json(req.auth)
+            })
+
+            const missing = await supertest(app).get('/me').expect(401)
+            expect(missing.headers['www-authenticate']).toBe('Bearer')
+            expect(missing.body.code).toBe('AUTHENTICATION_FAILED')
+
+            await supertest(app).get('/me').set('Authorization', 'Bearer wrong').expect(401)
+            const res = await supertest(app)
+                .get('/me')
+                .set('Authorization', 'Bearer secret')
+                .expect(200)
+            expect(res.body).toEqual({ id: 1 })
+        })
+
+        it('should document the security requirements of guarded routes', () => {
+            const openAPI = ExpressOpenAPI(options)
+            const apiKey = openAPI.security(
+                'apiKey',
+                { type: 'apiKey', in: 'header', name: 'x-api-key' },
+                verify,
+            )
+            const oauth = openAPI.security(
+                'oauth',
+                {
+                    type: 'oauth2',
+                    flows: {
+                        clientCredentials: { tokenUrl: '/token', scopes: { admin: 'Administer' } },
+                    },
+                },
+                verify,
+            )
+            const handler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+
+            app.use(openAPI)
+            app.get('/public', openAPI.path(schema), handler)
+            app.use(apiKey)
+            app.get('/private', openAPI.path(schema), handler)
+            app.get('/admin', oauth.scopes('admin'), openAPI.path(schema), handler)
+
+            const doc = openAPI.generate(app)
+            expect(doc.paths['public']?.get?.security).toBeUndefined()
+            expect(doc.paths['private']?.get?.security).toEqual([{ apiKey: [] }])
+            expect(doc.paths['admin']?.get?.security).toEqual([{ apiKey: [], oauth: ['admin'] }])
+            expect(Object.keys(doc.components?.securitySchemes ?? {})).toEqual(['apiKey', 'oauth'])
+        })
+
+        it('should only document mounted security under its mount path', () => {
+            const openAPI = ExpressOpenAPI(options)
+            const apiKey = openAPI.security(
+                'apiKey',
+                { type: 'apiKey', in: 'header', name: 'x-api-key' },
+                verify,
+            )
+            const admin = Router()
+            const handler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+
+            app.use('/api/admin', apiKey)
+            app.get('/public', openAPI.path(schema), handler)
+            app.get('/api/admin/users', openAPI.path(schema), handler)
+            admin.get('/stats', openAPI.path(schema), handler)
+            app.use(...openAPI.asRouterArgs('/api/admin', admin))
+
+            const doc = openAPI.generate(app)
+            expect(doc.paths['public']?.get?.security).toBeUndefined()
+            expect(doc.paths['api/admin/users']?.get?.security).toEqual([{ apiKey: [] }])
+            expect(doc.paths['api/admin/stats']?.get?.security).toEqual([{ apiKey: [] }])
+        })
+
+        it('should document route security per method', () => {
+            const openAPI = ExpressOpenAPI(options)
+            const apiKey = openAPI.security(
+                'apiKey',
+                { type: 'apiKey', in: 'header', name: 'x-api-key' },
+                verify,
+            )
+            const handler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+
+            app.route('/items')
+                .get(openAPI.path(schema), handler)
+                .post(apiKey, openAPI.path(schema), handler)
+
+            const doc = openAPI.generate(app)
+            expect(doc.paths['items']?.get?.security).toBeUndefined()
+            expect(doc.paths['items']?.post?.security).toEqual([{ apiKey: [] }])
+        })
+    })
+
+    describe('typed method', () => {
+        const schema = {
+            parameters: [
+                { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+                { name: 'verbose', in: 'query', schema: { type: 'boolean' } },
+            ],
+            requestBody: {
+                required: true,
+                content: {
+                    'application/json': {
+                        schema: {
+                            type: 'object',
+                            required: ['name'],
+                            properties: {
+                                name: { type: 'string' },
+                                role: { type: 'string', enum: ['admin', 'user'] },
+                            },
+                        },
+                    },
+                },
+            },
+            responses: {
+                '200': {
+                    description: 'Updated',
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['id', 'name'],
+                                properties: {
+                                    id: { type: 'integer' },
+                                    name: { type: 'string' },
+                                    tags: { type: 'array', items: { type: 'string' } },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        } as const
+
+        it('should type and coerce the request from the schema', async () => {
+            const openAPI = ExpressOpenAPI(options)
+            const updateUser = openAPI.typed(schema)
+
+            app.use(express.json())
+            app.put(
+                '/users/:id',
+                ...updateUser.handle((req, res) => {
+                    const id: number = req.params.id
+                    const verbose: boolean | undefined = req.query.verbose
+                    const name: string = req.body.name
+                    const role: 'admin' | 'user' | undefined = req.body.role
+
+                    res.json({ id, name, tags: [String(verbose), role ?? 'none'] })
+                }),
+            )
+
+            const res = await supertest(app)
+                .put('/users/7?verbose=true')
+                .send({ name: 'Ada', role: 'admin' })
+                .expect(200)
+
+            expect(res.body).toEqual({ id: 7, name: 'Ada', tags: ['true', 'admin'] })
+        })
+
+        it('should coerce with the generated operation', async () => {
+            const openAPI = ExpressOpenAPI(options)
+            const router = Router()
+
+            router.put(
+                '/users/:id',
+                ...openAPI.typed(schema).handle((req, res) => {
+                    // The mount path parameter and router defaults are not part of the schema
+                    const { params, query } = req as unknown as Request
+                    res.json({
+                        id: req.params.id,
+                        name: req.body.name,
+                        tags: [String(params.orgId), typeof query.page],
+                    })
+                }),
+            )
+            app.use(express.json())
+            app.use(openAPI)
+            app.use(
+                ...openAPI.asRouterArgs('/orgs/:orgId', router, {
+                    parameters: [
+                        { name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+                    ],
+                }),
+            )
+
+            const res = await supertest(app)
+                .put('/orgs/acme/users/7')
+                .send({ name: 'Ada' })
+                .expect(200)
+
+            expect(res.body).toEqual({ id: 7, name: 'Ada', tags: ['acme', 'number'] })
+        })
+
+        it('should document the typed operation', async () => {
+            const openAPI = ExpressOpenAPI(options)
+
+            app.use(openAPI)
+            app.put(
+                '/users/:id',
+                ...openAPI.typed(schema).handle((_req, res) => {
+                    res.json({ id: 1, name: 'Ada' })
+                }),
+            )
+
+            openAPI.generate(app)
+
+            expect(openAPI.document.paths['users/{id}']?.put?.requestBody).toEqual(
+                schema.requestBody,
+            )
+        })
+    })
+
+    describe('multiple documents', () => {
+        function multiDocumentApp(adminRouter: Router, documents: OpenAPIOptions['documents']) {
+            const openAPI = ExpressOpenAPI({ ...options, documents })
+            const User = openAPI.component('schemas', 'User', {
+                type: 'object',
+                properties: { id: { type: 'integer' } },
+            })
+            openAPI.component('schemas', 'AuditLog', { type: 'array', items: { type: 'string' } })
+            const handler = (_req: Request, res: Response) => {
+                res.json({})
+            }
+            const userResponse = {
+                '200': { description: 'User', content: { 'application/json': { schema: User } } },
+            }
+
+            app.use(openAPI)
+            app.get(
+                '/users/:id',
+                openAPI.path({
+                    tags: ['users'],
+                    responses: userResponse,
+                    'x-visibility': 'public',
+                }),
+                handler,
+            )
+            adminRouter.get(
+                '/audit',
+                openAPI.path({
+                    tags: ['admin'],
+                    responses: {
+                        '200': {
+                            description: 'Audit log',
+                            content: {
+                                'application/json': {
+                                    schema: openAPI.ref('schemas', 'AuditLog'),
+                                },
+                            },
+                        },
+                    },
+                }),
+                handler,
+            )
+            app.use(...openAPI.asRouterArgs('/internal', adminRouter))
+            return openAPI
+        }
+
+        it('should select operations by visibility, router, tag and path prefix', () => {
+            const adminRouter = Router()
+            const openAPI = multiDocumentApp(adminRouter, {
+                public: { include: { visibility: ['public'] } },
+                internal: { include: { routers: [adminRouter] } },
+                admin: { include: { tags: ['admin'], pathPrefixes: ['/internal'] } },
+                none: { include: { tags: ['admin'], pathPrefixes: ['/users'] } },
+            })
+            openAPI.generate(app)
+
+            const paths = (name: string) => Object.keys(openAPI.documents[name].paths)
+            expect(Object.keys(openAPI.document.paths)).toEqual(['users/{id}', 'internal/audit'])
+            expect(paths('public')).toEqual(['users/{id}'])
+            expect(paths('internal')).toEqual(['internal/audit'])
+            expect(paths('admin')).toEqual(['internal/audit'])
+            expect(paths('none')).toEqual([])
+        })
+
+        it('should select routers of documents with hoisted schemas', () => {
+            const adminRouter = Router()
+            const openAPI = ExpressOpenAPI({
+                ...options,
+                hoistSchemas: true,
+                documents: { internal: { include: { routers: [adminRouter] } } },
+            })
+            const entry: OpenAPIV3.SchemaObject = {
+                type: 'object',
+                properties: { message: { type: 'string' } },
+            }
+
+            adminRouter.post(
+                '/audit',
+                openAPI.path({
+                    operationId: 'recordAudit',
+                    requestBody: { content: { 'application/json': { schema: { ...entry } } } },
+                    responses: {
+                        '200': {
+                            description: 'Audit entry',
+                            content: { 'application/json': { schema: { ...entry } } },
+                        },
+                    },
+                }),
+                (_req: Request, res: Response) => {
+                    res.json({})
+                },
+            )
+            app.use(...openAPI.asRouterArgs('/internal', adminRouter))
+            openAPI.generate(app)
+
+            expect(Object.keys(openAPI.documents.internal.paths)).toEqual(['internal/audit'])
+            expect(openAPI.documents.internal.components?.schemas).toEqual({
+                RecordAuditRequest: entry,
+            })
+        })
+
+        it('should give each document its own info, servers and components', () => {
+            const openAPI = multiDocumentApp(Router(), {
+                public: {
+                    info: { title: 'Public API' },
+                    servers: [{ url: 'https://api.example.com' }],
+                    include: { visibility: ['public'] },
+                },
+            })
+            openAPI.generate(app)
+
+            const doc = openAPI.documents.public
+            expect(doc.info).toEqual({ title: 'Public API', version: '1.0.0' })
+            expect(doc.servers).toEqual([{ url: 'https://api.example.com' }])
+            expect(Object.keys(doc.components?.schemas ?? {})).toEqual(['User'])
+            expect(Object.keys(openAPI.document.components?.schemas ?? {})).toEqual([
+                'User',
+                'AuditLog',
+            ])
+        })
+
+        it('should serve documents under their own prefix', async () => {
+            multiDocumentApp(Router(), {
+                public: { docPrefix: '/docs/public', include: { visibility: ['public'] } },
+            })
+
+            const res = await supertest(app).get('/docs/public/openapi.json').expect(200)
+            expect(Object.keys(res.body.paths)).toEqual(['users/{id}'])
+            await supertest(app).get('/docs/public/openapi.yaml').expect(200)
+        })
+    })
 })
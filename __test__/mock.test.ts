@@ -0,0 +1,124 @@
+import * as express from 'express'
+import * as supertest from 'supertest'
+import { OpenAPIV3 } from 'openapi-types'
+
+import { createMockRouter, generateExample } from '../src/mock'
+import { validateSchema } from '../src/validator'
+
+describe('Mock server', () => {
+    const user: OpenAPIV3.SchemaObject = {
+        type: 'object',
+        required: ['id', 'email'],
+        properties: {
+            id: { type: 'string', format: 'uuid' },
+            email: { type: 'string', format: 'email' },
+            age: { type: 'integer', minimum: 18, maximum: 99 },
+            score: { type: 'number', minimum: 0, exclusiveMinimum: true, multipleOf: 0.25 },
+            role: { type: 'string', enum: ['admin', 'member'] },
+            createdAt: { type: 'string', format: 'date-time' },
+            tags: {
+                type: 'array',
+                items: { type: 'string', minLength: 3 },
+                minItems: 2,
+                maxItems: 4,
+            },
+        },
+    }
+
+    const doc: OpenAPIV3.Document = {
+        openapi: '3.0.0',
+        info: { title: 'Mock API', version: '1.0.0' },
+        paths: {
+            '/users/{id}': {
+                get: {
+                    responses: {
+                        '200': {
+                            description: 'User',
+                            content: {
+                                'application/json': {
+                                    schema: { $ref: '#/components/schemas/User' },
+                                },
+                            },
+                        },
+                        '404': {
+                            description: 'Not found',
+                            content: {
+                                'application/json': {
+                                    examples: {
+                                        missing: { value: { code: 'NOT_FOUND' } },
+                                        deleted: { value: { code: 'GONE' } },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+                delete: { responses: { '204': { description: 'Deleted' } } },
+            },
+            '/health': {
+                get: {
+                    responses: {
+                        '200': {
+                            description: 'Health',
+                            content: { 'application/json': { example: { status: 'ok' } } },
+                        },
+                        '503': { description: 'Unavailable' },
+                    },
+                },
+            },
+        },
+        components: { schemas: { User: user } },
+    }
+
+    function mockApp(seed?: number) {
+        const app = express()
+        app.use(createMockRouter(doc, { seed }))
+        return app
+    }
+
+    it('should answer with documented examples', async () => {
+        const res = await supertest(mockApp()).get('/health').expect(200)
+        expect(res.body).toEqual({ status: 'ok' })
+    })
+
+    it('should generate responses matching the schema', async () => {
+        const res = await supertest(mockApp()).get('/users/1').expect(200)
+
+        expect(res.headers['content-type']).toMatch(/application\/json/)
+        expect(validateSchema(user, res.body, doc)).toEqual([])
+        expect(Object.keys(res.body)).toEqual(Object.keys(user.properties ?? {}))
+    })
+
+    it('should generate the same responses for the same seed', async () => {
+        const first = await supertest(mockApp(42)).get('/users/1')
+        const second = await supertest(mockApp(42)).get('/users/2')
+        const other = await supertest(mockApp(7)).get('/users/1')
+
+        expect(first.body).toEqual(second.body)
+        expect(first.body).not.toEqual(other.body)
+        expect(generateExample(user, doc, 3)).toEqual(generateExample(user, doc, 3))
+    })
+
+    it('should answer responses without content with an empty body', async () => {
+        const res = await supertest(mockApp()).delete('/users/1').expect(204)
+        expect(res.text).toBe('')
+    })
+
+    it('should select responses with the Prefer header', async () => {
+        const app = mockApp()
+
+        const notFound = await supertest(app).get('/users/1').set('Prefer', 'code=404').expect(404)
+        expect(notFound.body).toEqual({ code: 'NOT_FOUND' })
+
+        const deleted = await supertest(app)
+            .get('/users/1')
+            .set('Prefer', 'code=404, example=deleted')
+            .expect(404)
+        expect(deleted.body).toEqual({ code: 'GONE' })
+
+        await supertest(app).get('/health').set('Prefer', 'code=503').expect(503)
+
+        const missing = await supertest(app).get('/health').set('Prefer', 'code=418').expect(500)
+        expect(missing.body.code).toBe('MOCK_RESPONSE_NOT_DOCUMENTED')
+    })
+})
@@ -0,0 +1,36 @@
+import { createHash } from 'crypto'
+import { Router } from 'express'
+
+import { isRouter } from './utils'
+import { Layer, OpenAPIDocument } from './types'
+
+// Layers are numbered on first sight so that replaced layers change the fingerprint
+const layerIds = new WeakMap<Layer, number>()
+let nextLayerId = 0
+
+function layerId(layer: Layer): number {
+    let id = layerIds.get(layer)
+    if (id === undefined) {
+        id = nextLayerId++
+        layerIds.set(layer, id)
+    }
+    return id
+}
+
+// Identify the layers of a router and of the routes and routers nested in it, which changes
+// whenever a route or router is added or removed
+export function stackFingerprint(router: Router): string {
+    return router.stack
+        .map(layer => {
+            const id = String(layerId(layer))
+            if (layer.route) return `${id}(${layer.route.stack.map(layerId).join(',')})`
+            if (isRouter(layer.handle)) return `${id}[${stackFingerprint(layer.handle)}]`
+            return id
+        })
+        .join(',')
+}
+
+// Strong ETag derived from the content of a document
+export function documentETag(doc: OpenAPIDocument): string {
+    return `"${createHash('sha1').update(JSON.stringify(doc)).digest('base64url')}"`
+}
@@ -0,0 +1,290 @@
+#!/usr/bin/env node
+import * as fs from 'fs'
+import * as path from 'path'
+import { Application } from 'express'
+import { OpenAPIV3 } from 'openapi-types'
+
+import { generateClient } from './client'
+import { diffDocuments, formatDiff } from './diff'
+import { CoverageReport, DiffOptions, ExportOptions, GenerateClientOptions } from './types'
+import { isOpenAPIMiddleware } from './utils'
+
+const usage = `Usage: express-openapi export <module> [options]
+       express-openapi diff <base> <head> [options]
+       express-openapi client <document> --output <dir> [options]
+
+export  Imports a module exporting an Express application and writes its OpenAPI document.
+diff    Compares two documents and exits with 1 if head breaks clients of base.
+client  Writes a typed TypeScript client for the document to the output directory.
+
+Documents are JSON files or, like for export, modules exporting an application.
+
+Options:
+  -e, --export <name>    Named export holding the application (default: default, app)
+  -o, --output <file>    Write to a file instead of stdout, or to a directory for client
+  -f, --format <format>  export: json or yaml (default: inferred from --output, else json)
+                         diff: text or json (default: text)
+  -p, --pretty           Indent JSON output
+      --check            Exit with 1 if --output is not up to date instead of writing it
+      --min-coverage <n> Exit with 1 if less than n percent of the routes are documented
+  -h, --help             Show this message
+`
+
+class UsageError extends Error {}
+
+function valueReader(rest: string[]) {
+    return (flag: string) => {
+        const next = rest.shift()
+        if (!next || next.startsWith('-')) throw new UsageError(`Missing value for ${flag}`)
+        return next
+    }
+}
+
+function parseExportArgs(rest: string[]): ExportOptions {
+    const options: Partial<ExportOptions> = { pretty: false, check: false }
+    const value = valueReader(rest)
+
+    while (rest.length > 0) {
+        const arg = rest.shift() as string
+        switch (arg) {
+            case '-e':
+            case '--export':
+                options.exportName = value(arg)
+                break
+            case '-o':
+            case '--output':
+                options.output = value(arg)
+                break
+            case '-f':
+            case '--format': {
+                const format = value(arg)
+                if (format !== 'json' && format !== 'yaml') {
+                    throw new UsageError(`Unsupported format "${format}"`)
+                }
+                options.format = format
+                break
+            }
+            case '-p':
+            case '--pretty':
+                options.pretty = true
+                break
+            case '--check':
+                options.check = true
+                break
+            case '--min-coverage': {
+                const percentage = Number(value(arg))
+                if (Number.isNaN(percentage) || percentage < 0 || percentage > 100) {
+                    throw new UsageError('--min-coverage must be a percentage between 0 and 100')
+                }
+                options.minCoverage = percentage
+                break
+            }
+            default:
+                if (arg.startsWith('-') || options.module) {
+                    throw new UsageError(`Unexpected argument "${arg}"`)
+                }
+                options.module = arg
+        }
+    }
+
+    if (!options.module) throw new UsageError('Missing application module')
+    if (options.check && !options.output) throw new UsageError('--check requires --output')
+    if (!options.format) {
+        options.format = /\.ya?ml$/i.test(options.output ?? '') ? 'yaml' : 'json'
+    }
+    return options as ExportOptions
+}
+
+function parseDiffArgs(rest: string[]): DiffOptions {
+    const options: Partial<DiffOptions> = { format: 'text' }
+    const documents: string[] = []
+    const value = valueReader(rest)
+
+    while (rest.length > 0) {
+        const arg = rest.shift() as string
+        switch (arg) {
+            case '-e':
+            case '--export':
+                options.exportName = value(arg)
+                break
+            case '-f':
+            case '--format': {
+                const format = value(arg)
+                if (format !== 'text' && format !== 'json') {
+                    throw new UsageError(`Unsupported format "${format}"`)
+                }
+                options.format = format
+                break
+            }
+            default:
+                if (arg.startsWith('-') || documents.length === 2) {
+                    throw new UsageError(`Unexpected argument "${arg}"`)
+                }
+                documents.push(arg)
+        }
+    }
+
+    if (documents.length < 2) throw new UsageError('Missing documents to compare')
+    const [base, head] = documents
+    return { ...options, base, head } as DiffOptions
+}
+
+function parseClientArgs(rest: string[]): GenerateClientOptions {
+    const options: Partial<GenerateClientOptions> = {}
+    const value = valueReader(rest)
+
+    while (rest.length > 0) {
+        const arg = rest.shift() as string
+        switch (arg) {
+            case '-e':
+            case '--export':
+                options.exportName = value(arg)
+                break
+            case '-o':
+            case '--output':
+                options.output = value(arg)
+                break
+            default:
+                if (arg.startsWith('-') || options.source) {
+                    throw new UsageError(`Unexpected argument "${arg}"`)
+                }
+                options.source = arg
+        }
+    }
+
+    if (!options.source) throw new UsageError('Missing document')
+    if (!options.output) throw new UsageError('Missing --output directory')
+    return options as GenerateClientOptions
+}
+
+function loadApplication(modulePath: string, exportName?: string): Application {
+    const mod = require(path.resolve(process.cwd(), modulePath))
+    const app = exportName ? mod[exportName] : (mod.default ?? mod.app ?? mod)
+    if (typeof app !== 'function' || !('router' in app)) {
+        throw new Error(`Module "${modulePath}" does not export an Express application`)
+    }
+    return app
+}
+
+function loadMiddleware(modulePath: string, exportName?: string) {
+    const app = loadApplication(modulePath, exportName)
+    const openAPI = app.router.stack.map(layer => layer.handle).find(isOpenAPIMiddleware)
+    if (!openAPI) {
+        const message = `Application in "${modulePath}" does not use the ExpressOpenAPI middleware`
+        throw new Error(message)
+    }
+    return { app, openAPI }
+}
+
+// Read a JSON document, or generate the document of an application module
+function loadDocument(source: string, exportName?: string): OpenAPIV3.Document {
+    if (/\.json$/i.test(source)) {
+        return JSON.parse(fs.readFileSync(path.resolve(process.cwd(), source), 'utf8'))
+    }
+    if (/\.ya?ml$/i.test(source)) {
+        throw new Error(`Cannot read "${source}", YAML documents are not supported`)
+    }
+    const { app, openAPI } = loadMiddleware(source, exportName)
+    return openAPI.generate(app)
+}
+
+// Generate the document of an application module and serialize it
+export function exportDocument(options: ExportOptions): {
+    output: string
+    coverage: CoverageReport
+} {
+    const { app, openAPI } = loadMiddleware(options.module, options.exportName)
+    const doc = openAPI.generate(app)
+    const output =
+        options.format === 'yaml'
+            ? openAPI.toYAML()
+            : JSON.stringify(doc, null, options.pretty ? 2 : undefined) + '\n'
+    return { output, coverage: openAPI.coverage() }
+}
+
+function formatUndocumented(coverage: CoverageReport): string {
+    return coverage.routes
+        .filter(route => !route.documented)
+        .map(route => `- ${route.method.toUpperCase()} ${route.path}\n`)
+        .join('')
+}
+
+function runExport(options: ExportOptions): number {
+    const { output, coverage } = exportDocument(options)
+
+    if (options.minCoverage !== undefined && coverage.percentage < options.minCoverage) {
+        const percentage = coverage.percentage.toFixed(1)
+        process.stderr.write(
+            `${percentage}% of routes are documented, expected at least ${options.minCoverage}%\n`,
+        )
+        process.stderr.write(`Undocumented routes:\n${formatUndocumented(coverage)}`)
+        return 1
+    }
+
+    if (!options.output) {
+        process.stdout.write(output)
+        return 0
+    }
+
+    const file = path.resolve(process.cwd(), options.output)
+    if (options.check) {
+        const current = fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : undefined
+        if (current === output) return 0
+        process.stderr.write(`${options.output} is out of date, re-run without --check\n`)
+        return 1
+    }
+
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    fs.writeFileSync(file, output)
+    return 0
+}
+
+function runDiff(options: DiffOptions): number {
+    const base = loadDocument(options.base, options.exportName)
+    const head = loadDocument(options.head, options.exportName)
+    const diff = diffDocuments(base, head)
+
+    if (options.format === 'json') process.stdout.write(JSON.stringify(diff, null, 2) + '\n')
+    else process.stdout.write(formatDiff(diff))
+    return diff.breaking ? 1 : 0
+}
+
+function runClient(options: GenerateClientOptions): number {
+    const files = generateClient(loadDocument(options.source, options.exportName))
+    const directory = path.resolve(process.cwd(), options.output)
+
+    fs.mkdirSync(directory, { recursive: true })
+    Object.entries(files).forEach(([file, source]) => {
+        fs.writeFileSync(path.join(directory, file), source)
+    })
+    return 0
+}
+
+export function run(argv: string[]): number {
+    if (argv.includes('-h') || argv.includes('--help')) {
+        process.stdout.write(usage)
+        return 0
+    }
+
+    try {
+        const [command, ...rest] = argv
+        switch (command) {
+            case 'export':
+                return runExport(parseExportArgs(rest))
+            case 'diff':
+                return runDiff(parseDiffArgs(rest))
+            case 'client':
+                return runClient(parseClientArgs(rest))
+            default:
+                throw new UsageError(`Unknown command "${command ?? ''}"`)
+        }
+    } catch (err) {
+        process.stderr.write(`${(err as Error).message}\n`)
+        if (err instanceof UsageError) process.stderr.write(`\n${usage}`)
+        return err instanceof UsageError ? 2 : 1
+    }
+}
+
+if (require.main === module) {
+    process.exitCode = run(process.argv.slice(2))
+}
@@ -0,0 +1,552 @@
+import { OpenAPIV3 } from 'openapi-types'
+
+import { deriveOperationId, uniqueOperationId } from './naming'
+import { isHTTPMethod, isParameterObject, isReferenceObject, resolveReference } from './utils'
+import { ClientFiles, OpenAPIDocument } from './types'
+
+type Schema = OpenAPIV3.SchemaObject & {
+    type?: string | string[]
+    const?: unknown
+    prefixItems?: Schema[]
+}
+
+interface Context {
+    doc: OpenAPIDocument
+    // Type names of the component schemas by reference
+    names: Map<string, string>
+    // Prepended to type names outside of the schemas file
+    namespace: string
+}
+
+interface ClientOperation {
+    id: string
+    method: string
+    path: string
+    operation: OpenAPIV3.OperationObject
+    parameters: OpenAPIV3.ParameterObject[]
+    body?: OpenAPIV3.RequestBodyObject
+}
+
+// References nested deeper than this are typed as unknown, which also ends recursive schemas
+const maxDepth = 8
+
+// Globals used by the generated code that component names must not shadow
+const reservedNames = new Set(['Array', 'Blob', 'Promise', 'Record', 'Response'])
+
+// Helpers of the generated client, written without template literals so that they can be
+// embedded here
+const runtime = `export interface ClientOptions {
+    // Prepended to every path, defaults to the first server of the document
+    baseUrl?: string
+    fetch?: typeof fetch
+    headers?: Record<string, string>
+}
+
+export interface ApiResponse<S extends number, T> {
+    status: S
+    data: T
+    response: Response
+}
+
+interface Parameter {
+    name: string
+    in: 'path' | 'query' | 'header' | 'cookie'
+    style: string
+    explode: boolean
+}
+
+interface Operation {
+    method: string
+    path: string
+    parameters: Parameter[]
+    mediaType?: string
+}
+
+interface RequestInput {
+    path?: Record<string, unknown>
+    query?: Record<string, unknown>
+    headers?: Record<string, unknown>
+    cookies?: Record<string, unknown>
+    body?: unknown
+}
+
+function encode(value: unknown): string {
+    return encodeURIComponent(String(value))
+}
+
+function pairsOf(value: object): [string, string][] {
+    const values = value as Record<string, unknown>
+    return Object.keys(values).map(key => {
+        const pair: [string, string] = [encode(key), encode(values[key])]
+        return pair
+    })
+}
+
+function serializePath(parameter: Parameter, value: unknown): string {
+    const { name, style, explode } = parameter
+    const prefix = style === 'label' ? '.' : style === 'matrix' ? ';' + name + '=' : ''
+    if (Array.isArray(value)) {
+        const items = value.map(encode)
+        if (!explode) return prefix + items.join(',')
+        if (style === 'label') return '.' + items.join('.')
+        if (style === 'matrix') return items.map(item => ';' + name + '=' + item).join('')
+        return items.join(',')
+    }
+    if (value !== null && typeof value === 'object') {
+        const pairs = pairsOf(value)
+        if (!explode) return prefix + pairs.map(pair => pair.join(',')).join(',')
+        const assignments = pairs.map(pair => pair.join('='))
+        if (style === 'label') return '.' + assignments.join('.')
+        if (style === 'matrix') return assignments.map(assignment => ';' + assignment).join('')
+        return assignments.join(',')
+    }
+    return prefix + encode(value)
+}
+
+function serializeQuery(parameter: Parameter, value: unknown): string[] {
+    const { style, explode } = parameter
+    const name = encode(parameter.name)
+    if (Array.isArray(value)) {
+        const items = value.map(encode)
+        if (style === 'form' && explode) return items.map(item => name + '=' + item)
+        const separator =
+            style === 'spaceDelimited' ? '%20' : style === 'pipeDelimited' ? '|' : ','
+        return [name + '=' + items.join(separator)]
+    }
+    if (value !== null && typeof value === 'object') {
+        const pairs = pairsOf(value)
+        if (style === 'deepObject') return pairs.map(pair => name + '[' + pair[0] + ']=' + pair[1])
+        if (explode) return pairs.map(pair => pair.join('='))
+        return [name + '=' + pairs.map(pair => pair.join(',')).join(',')]
+    }
+    return [name + '=' + encode(value)]
+}
+
+function serializeHeader(parameter: Parameter, value: unknown): string {
+    if (Array.isArray(value)) return value.map(String).join(',')
+    if (value !== null && typeof value === 'object') {
+        const separator = parameter.explode ? '=' : ','
+        return Object.keys(value)
+            .map(key => key + separator + String((value as Record<string, unknown>)[key]))
+            .join(',')
+    }
+    return String(value)
+}
+
+function serializeCookie(parameter: Parameter, value: unknown): string {
+    if (Array.isArray(value)) return parameter.name + '=' + value.map(encode).join(',')
+    if (value !== null && typeof value === 'object') {
+        return parameter.name + '=' + pairsOf(value).map(pair => pair.join(',')).join(',')
+    }
+    return parameter.name + '=' + encode(value)
+}
+
+function serializeBody(mediaType: string, body: unknown, headers: Headers): BodyInit {
+    if (/json/i.test(mediaType)) {
+        headers.set('content-type', mediaType)
+        return JSON.stringify(body)
+    }
+    if (mediaType === 'application/x-www-form-urlencoded') {
+        const form = new URLSearchParams()
+        Object.keys(body as object).forEach(key => {
+            form.append(key, String((body as Record<string, unknown>)[key]))
+        })
+        return form
+    }
+    if (mediaType === 'multipart/form-data') {
+        const form = new FormData()
+        Object.keys(body as object).forEach(key => {
+            const value = (body as Record<string, unknown>)[key]
+            form.append(key, value instanceof Blob ? value : String(value))
+        })
+        return form
+    }
+    headers.set('content-type', mediaType)
+    return body as BodyInit
+}
+
+async function parseResponse(response: Response): Promise<unknown> {
+    const contentType = response.headers.get('content-type') || ''
+    if (/json/i.test(contentType)) {
+        const text = await response.text()
+        return text ? JSON.parse(text) : undefined
+    }
+    if (/^text\\//i.test(contentType)) return response.text()
+    if (response.status === 204 || response.status === 304) return undefined
+    const blob = await response.blob()
+    return blob.size > 0 ? blob : undefined
+}
+
+function createRequest(options: ClientOptions, defaultBaseUrl: string) {
+    const baseUrl = (options.baseUrl !== undefined ? options.baseUrl : defaultBaseUrl).replace(
+        /\\/+$/,
+        '',
+    )
+
+    return async function request<R>(
+        operation: Operation,
+        input: RequestInput,
+        init: RequestInit = {},
+    ): Promise<R> {
+        const headers = new Headers(options.headers)
+        new Headers(init.headers).forEach((value, key) => headers.set(key, value))
+        const query: string[] = []
+        const cookies: string[] = []
+        let path = operation.path
+
+        operation.parameters.forEach(parameter => {
+            const values =
+                parameter.in === 'path'
+                    ? input.path
+                    : parameter.in === 'query'
+                      ? input.query
+                      : parameter.in === 'header'
+                        ? input.headers
+                        : input.cookies
+            const value = values ? values[parameter.name] : undefined
+            if (value === undefined) return
+            if (parameter.in === 'path') {
+                path = path.split('{' + parameter.name + '}').join(serializePath(parameter, value))
+            } else if (parameter.in === 'query') {
+                query.push(...serializeQuery(parameter, value))
+            } else if (parameter.in === 'header') {
+                headers.set(parameter.name, serializeHeader(parameter, value))
+            } else {
+                cookies.push(serializeCookie(parameter, value))
+            }
+        })
+        if (cookies.length > 0) headers.set('cookie', cookies.join('; '))
+
+        const body =
+            input.body !== undefined && operation.mediaType
+                ? serializeBody(operation.mediaType, input.body, headers)
+                : undefined
+        const search = query.length > 0 ? '?' + query.join('&') : ''
+        const url = baseUrl + '/' + path.replace(/^\\/+/, '') + search
+        const response = await (options.fetch || fetch)(url, {
+            ...init,
+            method: operation.method,
+            headers,
+            body,
+        })
+        const data = await parseResponse(response)
+        return { status: response.status, data, response } as unknown as R
+    }
+}
+`
+
+function isIdentifier(name: string): boolean {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name)
+}
+
+function quote(value: string): string {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`
+}
+
+function propertyKey(name: string): string {
+    return isIdentifier(name) ? name : quote(name)
+}
+
+function literal(value: unknown): string {
+    if (typeof value === 'string') return quote(value)
+    if (typeof value === 'number' || typeof value === 'boolean' || value === null) {
+        return String(value)
+    }
+    return 'unknown'
+}
+
+function pascalCase(value: string): string {
+    const name = value
+        .split(/[^A-Za-z0-9_$]+/)
+        .filter(Boolean)
+        .map(word => word[0].toUpperCase() + word.slice(1))
+        .join('')
+    return /^[0-9]/.test(name) ? `_${name}` : name || 'Schema'
+}
+
+function indent(text: string, depth: number): string {
+    const padding = '    '.repeat(depth)
+    return text
+        .split('\n')
+        .map(line => (line ? padding + line : line))
+        .join('\n')
+}
+
+function docComment(text: string | undefined): string {
+    if (!text) return ''
+    const lines = text.trim().replace(/\*\//g, '*\\/').split('\n')
+    if (lines.length === 1) return `/** ${lines[0]} */\n`
+    return ['/**', ...lines.map(line => ` * ${line}`.trimEnd()), ' */', ''].join('\n')
+}
+
+// Types combined with others are parenthesized when they are unions or intersections
+function group(type: string): string {
+    return /^[^{]*[|&]/.test(type) ? `(${type})` : type
+}
+
+function objectType(ctx: Context, schema: Schema, depth: number): string {
+    const required = new Set(schema.required ?? [])
+    const properties = Object.entries(schema.properties ?? {}).map(([name, property]) => {
+        const resolved = resolveReference<Schema>(ctx.doc, property)
+        const optional = required.has(name) ? '' : '?'
+        const type = schemaType(ctx, property, depth + 1)
+        return `${docComment(resolved?.description)}${propertyKey(name)}${optional}: ${type}`
+    })
+
+    const additional = schema.additionalProperties
+    if (properties.length === 0) {
+        if (additional === false) return 'Record<string, never>'
+        if (additional && additional !== true) {
+            return `Record<string, ${schemaType(ctx, additional, depth + 1)}>`
+        }
+        return 'Record<string, unknown>'
+    }
+    // Declared properties must fit the index signature, so it cannot be narrowed further
+    if (additional) properties.push('[key: string]: unknown')
+    return `{\n${indent(properties.join('\n'), 1)}\n}`
+}
+
+function typeOfName(ctx: Context, schema: Schema, type: string, depth: number): string {
+    switch (type) {
+        case 'string':
+            return schema.format === 'binary' ? 'Blob' : 'string'
+        case 'integer':
+        case 'number':
+            return 'number'
+        case 'boolean':
+            return 'boolean'
+        case 'null':
+            return 'null'
+        case 'array': {
+            const items = 'items' in schema ? schema.items : undefined
+            if (schema.prefixItems) {
+                const prefix = schema.prefixItems.map(item => schemaType(ctx, item, depth + 1))
+                const rest = items ? [`...Array<${schemaType(ctx, items, depth + 1)}>`] : []
+                return `[${[...prefix, ...rest].join(', ')}]`
+            }
+            return `Array<${schemaType(ctx, items, depth + 1)}>`
+        }
+        case 'object':
+            return objectType(ctx, schema, depth)
+        default:
+            return 'unknown'
+    }
+}
+
+function schemaType(ctx: Context, schemaOrRef: unknown, depth = 0): string {
+    if (schemaOrRef === undefined || schemaOrRef === true) return 'unknown'
+    if (isReferenceObject(schemaOrRef)) {
+        const name = ctx.names.get(schemaOrRef.$ref)
+        if (name) return ctx.namespace + name
+    }
+    const schema = resolveReference<Schema>(ctx.doc, schemaOrRef as Schema)
+    if (!schema || depth > maxDepth) return 'unknown'
+
+    let type: string
+    if ('const' in schema) {
+        type = literal(schema.const)
+    } else if (schema.enum) {
+        type = schema.enum.map(literal).join(' | ')
+    } else if (schema.allOf) {
+        type = schema.allOf.map(sub => group(schemaType(ctx, sub, depth + 1))).join(' & ')
+    } else if (schema.oneOf ?? schema.anyOf) {
+        const alternatives = (schema.oneOf ?? schema.anyOf) as Schema[]
+        type = alternatives.map(sub => group(schemaType(ctx, sub, depth + 1))).join(' | ')
+    } else {
+        const types = schema.type === undefined ? [] : ([] as string[]).concat(schema.type)
+        if (types.length === 0 && schema.properties) types.push('object')
+        if (types.length === 0 && 'items' in schema) types.push('array')
+        type = types.map(name => typeOfName(ctx, schema, name, depth)).join(' | ') || 'unknown'
+    }
+    if (schema.nullable && !/\bnull$/.test(type)) type = `${group(type)} | null`
+    return type
+}
+
+function isJSON(mediaType: string): boolean {
+    return /json/i.test(mediaType)
+}
+
+// JSON is preferred when an operation accepts or returns several media types
+function preferredMedia(
+    content: Record<string, OpenAPIV3.MediaTypeObject> | undefined,
+): [string, OpenAPIV3.MediaTypeObject] | undefined {
+    const entries = Object.entries(content ?? {})
+    return entries.find(([type]) => isJSON(type)) ?? entries[0]
+}
+
+function collectOperations(doc: OpenAPIDocument): ClientOperation[] {
+    const pathItems = Object.entries(doc.paths ?? {}) as [string, OpenAPIV3.PathItemObject][]
+    const entries = pathItems.flatMap(([path, pathItem]) =>
+        Object.keys(pathItem ?? {})
+            .filter(isHTTPMethod)
+            .map(method => ({ path, method, pathItem })),
+    )
+    const operationOf = (entry: (typeof entries)[number]) =>
+        entry.pathItem[entry.method] as OpenAPIV3.OperationObject
+    const taken = new Set(entries.map(entry => operationOf(entry).operationId).filter(Boolean))
+
+    return entries.map(entry => {
+        const { path, method, pathItem } = entry
+        const operation = operationOf(entry)
+        const id =
+            operation.operationId ??
+            uniqueOperationId(deriveOperationId({ method, path }, {}), taken as Set<string>, {})
+
+        // Operation parameters override those of the path item with the same location and name
+        const parameters = new Map<string, OpenAPIV3.ParameterObject>()
+        const declared = [...(pathItem.parameters ?? []), ...(operation.parameters ?? [])]
+        declared.forEach(paramOrRef => {
+            const param = resolveReference<OpenAPIV3.ParameterObject>(doc, paramOrRef)
+            if (isParameterObject(param)) parameters.set(`${param.in}:${param.name}`, param)
+        })
+        const body = resolveReference<OpenAPIV3.RequestBodyObject>(doc, operation.requestBody)
+        return { id, method, path, operation, parameters: [...parameters.values()], body }
+    })
+}
+
+function requestType(ctx: Context, op: ClientOperation): [string, boolean] {
+    const groups: [string, OpenAPIV3.ParameterObject['in']][] = [
+        ['path', 'path'],
+        ['query', 'query'],
+        ['headers', 'header'],
+        ['cookies', 'cookie'],
+    ]
+    const members: string[] = []
+    let required = false
+    groups.forEach(([key, location]) => {
+        const params = op.parameters.filter(param => param.in === location)
+        if (params.length === 0) return
+        const isRequired = params.some(param => param.required)
+        required = required || isRequired
+        const fields = params.map(param => {
+            const optional = param.required ? '' : '?'
+            const type = schemaType(ctx, param.schema)
+            return `${docComment(param.description)}${propertyKey(param.name)}${optional}: ${type}`
+        })
+        members.push(`${key}${isRequired ? '' : '?'}: {\n${indent(fields.join('\n'), 1)}\n}`)
+    })
+
+    const media = preferredMedia(op.body?.content)
+    if (media) {
+        required = required || !!op.body?.required
+        const type = schemaType(ctx, media[1].schema)
+        members.push(`body${op.body?.required ? '' : '?'}: ${type}`)
+    }
+
+    const name = `${pascalCase(op.id)}Request`
+    if (members.length === 0) return [`export type ${name} = Record<string, never>\n`, false]
+    return [`export interface ${name} {\n${indent(members.join('\n'), 1)}\n}\n`, required]
+}
+
+function responseType(ctx: Context, op: ClientOperation): string {
+    const variants = Object.entries(op.operation.responses ?? {}).map(([status, responseOrRef]) => {
+        const response = resolveReference<OpenAPIV3.ResponseObject>(ctx.doc, responseOrRef)
+        const media = preferredMedia(response?.content)
+        const data = media ? schemaType(ctx, media[1].schema) : 'undefined'
+        // Ranges such as 2XX and default responses cannot be narrowed to a status
+        const code = /^\d{3}$/.test(status) ? status : 'number'
+        return `ApiResponse<${code}, ${data}>`
+    })
+    const name = `${pascalCase(op.id)}Response`
+    if (variants.length === 0) return `export type ${name} = ApiResponse<number, unknown>\n`
+    if (variants.length === 1) return `export type ${name} = ${variants[0]}\n`
+    return `export type ${name} =\n${variants.map(variant => `    | ${variant}\n`).join('')}`
+}
+
+function operationMethod(op: ClientOperation, requestRequired: boolean): string {
+    const name = pascalCase(op.id)
+    const parameters = op.parameters.map(param => {
+        // Defaults of the specification: form style for queries and cookies, simple otherwise
+        const style = param.style ?? (['query', 'cookie'].includes(param.in) ? 'form' : 'simple')
+        const explode = param.explode ?? style === 'form'
+        const name = `name: ${quote(param.name)}, in: ${quote(param.in)}`
+        return `{ ${name}, style: ${quote(style)}, explode: ${explode} }`
+    })
+    const media = preferredMedia(op.body?.content)
+    const fields = [
+        `method: ${quote(op.method.toUpperCase())}`,
+        `path: ${quote(op.path)}`,
+        `parameters: [${parameters.length > 0 ? `\n${indent(parameters.join(',\n'), 1)},\n` : ''}]`,
+        ...(media ? [`mediaType: ${quote(media[0])}`] : []),
+    ]
+    const input = requestRequired ? `input: ${name}Request` : `input: ${name}Request = {}`
+
+    return [
+        docComment(op.operation.summary ?? op.operation.description),
+        `${propertyKey(op.id)}: (${input}, init?: RequestInit) =>\n`,
+        `    request<${name}Response>(\n`,
+        `        {\n${indent(fields.join(',\n'), 3)},\n        },\n`,
+        '        input,\n',
+        '        init,\n',
+        '    ),\n',
+    ].join('')
+}
+
+// Generate the sources of a typed TypeScript client for a document: schemas.ts with the
+// component schemas and client.ts with one method per operation
+export function generateClient(doc: OpenAPIDocument): ClientFiles {
+    const header = `// Generated from ${quote(doc.info.title)} ${doc.info.version}, do not edit\n`
+
+    const schemas = Object.entries(doc.components?.schemas ?? {})
+    const names = new Map<string, string>()
+    const used = new Set<string>()
+    schemas.forEach(([name]) => {
+        let typeName = pascalCase(name)
+        if (reservedNames.has(typeName)) typeName = `${typeName}Schema`
+        const base = typeName
+        for (let i = 2; used.has(typeName); i++) typeName = `${base}${i}`
+        used.add(typeName)
+        const escaped = name.replace(/~/g, '~0').replace(/\//g, '~1')
+        names.set(`#/components/schemas/${escaped}`, typeName)
+    })
+
+    const schemaContext: Context = { doc, names, namespace: '' }
+    const declarations = schemas.map(([name, schemaOrRef]) => {
+        const escaped = name.replace(/~/g, '~0').replace(/\//g, '~1')
+        const typeName = names.get(`#/components/schemas/${escaped}`) as string
+        const schema = resolveReference<Schema>(doc, schemaOrRef as Schema)
+        // Resolve the schema itself, the reference would point back at its own name
+        const type = schemaType(schemaContext, schema)
+        const declaration = type.startsWith('{')
+            ? `export interface ${typeName} ${type}`
+            : `export type ${typeName} = ${type}`
+        return `${docComment(schema?.description)}${declaration}\n`
+    })
+
+    const context: Context = { doc, names, namespace: 'Schemas.' }
+    const operations = collectOperations(doc)
+    const types: string[] = []
+    const methods: string[] = []
+    operations.forEach(op => {
+        const [request, requestRequired] = requestType(context, op)
+        types.push(request, responseType(context, op))
+        methods.push(operationMethod(op, requestRequired))
+    })
+
+    const baseUrl = doc.servers?.[0]?.url ?? ''
+    const usesSchemas = [...types, ...methods].some(source => source.includes('Schemas.'))
+    const client = [
+        header,
+        ...(usesSchemas ? ["import * as Schemas from './schemas'\n"] : []),
+        runtime,
+        ...types,
+        'export function createClient(options: ClientOptions = {}) {',
+        `    const request = createRequest(options, ${quote(baseUrl)})`,
+        '',
+        '    return {',
+        indent(methods.join(''), 2).trimEnd(),
+        '    }',
+        '}',
+        '',
+        'export type Client = ReturnType<typeof createClient>',
+        '',
+    ]
+
+    return {
+        // Without declarations the file still has to be a module
+        'schemas.ts': [header, ...(declarations.length > 0 ? declarations : ['export {}\n'])].join(
+            '\n',
+        ),
+        'client.ts': client.join('\n'),
+    }
+}
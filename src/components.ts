@@ -0,0 +1,275 @@
+import { createHash } from 'crypto'
+import { OpenAPIV3 } from 'openapi-types'
+
+import { DuplicateComponentError } from './errors'
+import { isHTTPMethod, isReferenceObject } from './utils'
+import { ComponentType, ComponentValue } from './types'
+
+type Schema = OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject
+
+// Serialize with sorted keys so that structurally identical schemas compare equal
+export function canonicalize(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(canonicalize).join(',')}]`
+    if (value && typeof value === 'object') {
+        const record = value as Record<string, unknown>
+        const keys = Object.keys(record).filter(k => record[k] !== undefined)
+        return `{${keys
+            .sort()
+            .map(k => `${JSON.stringify(k)}:${canonicalize(record[k])}`)
+            .join(',')}}`
+    }
+    return JSON.stringify(value)
+}
+
+export function componentRef(type: ComponentType, name: string): OpenAPIV3.ReferenceObject {
+    const escaped = name.replace(/~/g, '~0').replace(/\//g, '~1')
+    return { $ref: `#/components/${type}/${escaped}` }
+}
+
+export class ComponentRegistry {
+    private components: Record<string, Record<string, unknown>> = {}
+
+    public register<T extends ComponentType>(
+        type: T,
+        name: string,
+        value: ComponentValue<T>,
+    ): void {
+        const group = this.components[type] ?? {}
+        if (name in group && canonicalize(group[name]) !== canonicalize(value)) {
+            throw new DuplicateComponentError(type, name)
+        }
+        group[name] = value
+        this.components[type] = group
+    }
+
+    // Merge registered components on top of those declared in the base document
+    public merge(base?: OpenAPIV3.ComponentsObject): OpenAPIV3.ComponentsObject | undefined {
+        const baseGroups = (base ?? {}) as Record<string, Record<string, unknown>>
+        const types = new Set([...Object.keys(baseGroups), ...Object.keys(this.components)])
+        if (types.size === 0) return undefined
+
+        const merged: Record<string, unknown> = {}
+        types.forEach(type => {
+            merged[type] = { ...baseGroups[type], ...this.components[type] }
+        })
+        return merged as OpenAPIV3.ComponentsObject
+    }
+}
+
+interface Candidate {
+    count: number
+    hint?: string
+}
+
+function pascalCase(value: string): string {
+    return value
+        .replace(/[^A-Za-z0-9]+(.)?/g, (_m, c: string | undefined) => (c ? c.toUpperCase() : ''))
+        .replace(/^./, c => c.toUpperCase())
+}
+
+function isHoistable(schema: Schema | undefined): schema is OpenAPIV3.SchemaObject {
+    return !!schema && !isReferenceObject(schema) && Object.keys(schema.properties ?? {}).length > 0
+}
+
+function forEachChild(
+    schema: OpenAPIV3.SchemaObject,
+    hint: string,
+    fn: (child: Schema, hint: string) => void,
+) {
+    Object.entries(schema.properties ?? {}).forEach(([name, child]) => fn(child, pascalCase(name)))
+    if ('items' in schema && schema.items) fn(schema.items, hint && `${hint}Item`)
+    if (typeof schema.additionalProperties === 'object') {
+        fn(schema.additionalProperties, hint && `${hint}Value`)
+    }
+    schema.allOf?.forEach(child => fn(child, ''))
+    schema.anyOf?.forEach(child => fn(child, ''))
+    schema.oneOf?.forEach(child => fn(child, ''))
+    if (schema.not) fn(schema.not, '')
+}
+
+function mapChildren(schema: OpenAPIV3.SchemaObject, fn: (child: Schema) => Schema) {
+    const mapped: Record<string, unknown> = { ...schema }
+    if (schema.properties) {
+        mapped.properties = Object.fromEntries(
+            Object.entries(schema.properties).map(([name, child]) => [name, fn(child)]),
+        )
+    }
+    if ('items' in schema && schema.items) mapped.items = fn(schema.items)
+    if (typeof schema.additionalProperties === 'object') {
+        mapped.additionalProperties = fn(schema.additionalProperties)
+    }
+    if (schema.allOf) mapped.allOf = schema.allOf.map(fn)
+    if (schema.anyOf) mapped.anyOf = schema.anyOf.map(fn)
+    if (schema.oneOf) mapped.oneOf = schema.oneOf.map(fn)
+    if (schema.not) mapped.not = fn(schema.not)
+    return mapped as OpenAPIV3.SchemaObject
+}
+
+function mapContent(
+    content: Record<string, OpenAPIV3.MediaTypeObject> | undefined,
+    fn: (schema: Schema, hint: string) => Schema,
+    hint: string,
+) {
+    if (!content) return content
+    return Object.fromEntries(
+        Object.entries(content).map(([type, media]) => [
+            type,
+            media.schema ? { ...media, schema: fn(media.schema, hint) } : media,
+        ]),
+    )
+}
+
+// Apply fn to every schema declared inline in the operations of a document. Operations are
+// updated in place so that references held to them elsewhere stay valid
+function mapOperationSchemas(
+    doc: OpenAPIV3.Document,
+    fn: (schema: Schema, hint: string) => Schema,
+): void {
+    Object.values(doc.paths).forEach(pathItem => {
+        if (!pathItem) return
+        Object.keys(pathItem)
+            .filter(isHTTPMethod)
+            .forEach(method => {
+                const operation = pathItem[method] as OpenAPIV3.OperationObject
+                const name = pascalCase(operation.operationId ?? '')
+                const mapped = { ...operation }
+
+                mapped.parameters = operation.parameters?.map(param => {
+                    if (isReferenceObject(param) || !param.schema) return param
+                    return { ...param, schema: fn(param.schema, pascalCase(param.name)) }
+                })
+                if (operation.requestBody && !isReferenceObject(operation.requestBody)) {
+                    const body = operation.requestBody
+                    mapped.requestBody = {
+                        ...body,
+                        content: mapContent(body.content, fn, name && `${name}Request`) ?? {},
+                    }
+                }
+                mapped.responses = Object.fromEntries(
+                    Object.entries(operation.responses ?? {}).map(([code, response]) => {
+                        if (isReferenceObject(response)) return [code, response]
+                        const suffix = code === '200' ? '' : pascalCase(code)
+                        const hint = name && `${name}Response${suffix}`
+                        return [
+                            code,
+                            { ...response, content: mapContent(response.content, fn, hint) },
+                        ]
+                    }),
+                )
+                Object.assign(operation, mapped)
+            })
+    })
+}
+
+// Move inline object schemas that occur more than once, or that are identical to a named
+// schema component, into components/schemas and replace them with references
+export function hoistSchemas(doc: OpenAPIV3.Document): void {
+    const schemas = { ...doc.components?.schemas }
+    const names = new Map<string, string>()
+    Object.entries(schemas).forEach(([name, schema]) => names.set(canonicalize(schema), name))
+
+    const candidates = new Map<string, Candidate>()
+    const count = (schema: Schema, hint: string) => {
+        if (!isHoistable(schema)) {
+            if (schema && !isReferenceObject(schema)) forEachChild(schema, hint, count)
+            return schema
+        }
+        const key = canonicalize(schema)
+        const candidate = candidates.get(key)
+        if (candidate) {
+            // Children were already counted at the first occurrence
+            candidate.count++
+            return schema
+        }
+        candidates.set(key, { count: 1, hint: schema.title ?? hint })
+        forEachChild(schema, hint, count)
+        return schema
+    }
+    mapOperationSchemas(doc, count)
+
+    const assignName = (key: string, hint?: string) => {
+        const hash = createHash('sha1').update(key).digest('hex').slice(0, 8)
+        const base = pascalCase(hint ?? '').replace(/[^A-Za-z0-9._-]/g, '') || `Schema${hash}`
+        let name = base
+        for (let i = 2; name in schemas; i++) name = `${base}${i}`
+        names.set(key, name)
+        return name
+    }
+
+    const replace = (schema: Schema): Schema => {
+        if (isReferenceObject(schema)) return schema
+        const mapped = mapChildren(schema, replace)
+        if (!isHoistable(schema)) return mapped
+
+        const key = canonicalize(schema)
+        let name = names.get(key)
+        if (!name) {
+            const candidate = candidates.get(key)
+            if (!candidate || candidate.count < 2) return mapped
+            name = assignName(key, candidate.hint)
+            schemas[name] = mapped
+        }
+        return componentRef('schemas', name)
+    }
+    mapOperationSchemas(doc, replace)
+
+    if (Object.keys(schemas).length > 0) {
+        doc.components = { ...doc.components, schemas }
+    }
+}
+
+function collectRefs(value: unknown, refs: string[]): void {
+    if (Array.isArray(value)) {
+        value.forEach(item => collectRefs(item, refs))
+    } else if (value && typeof value === 'object') {
+        if (isReferenceObject(value)) refs.push(value.$ref)
+        Object.values(value).forEach(child => collectRefs(child, refs))
+    }
+}
+
+function collectSecuritySchemes(value: unknown, names: Set<string>): void {
+    if (!value || typeof value !== 'object') return
+    Object.entries(value).forEach(([key, child]) => {
+        if (key === 'security' && Array.isArray(child)) {
+            child.forEach(requirement => Object.keys(requirement).forEach(name => names.add(name)))
+        } else {
+            collectSecuritySchemes(child, names)
+        }
+    })
+}
+
+// Remove components that are not referenced, directly or through other components, from the
+// rest of the document
+export function pruneComponents(doc: OpenAPIV3.Document): void {
+    if (!doc.components) return
+    const groups = doc.components as Record<string, Record<string, unknown>>
+    const { components, ...rest } = doc
+
+    const used = new Set<string>()
+    const pending: string[] = []
+    collectRefs(rest, pending)
+    while (pending.length > 0) {
+        const ref = pending.pop() as string
+        const match = /^#\/components\/([^/]+)\/([^/]+)/.exec(ref)
+        if (!match) continue
+        const [type, escaped] = [match[1], match[2]]
+        const name = decodeURIComponent(escaped).replace(/~1/g, '/').replace(/~0/g, '~')
+        const key = `${type}/${name}`
+        if (used.has(key) || !groups[type]?.[name]) continue
+        used.add(key)
+        collectRefs(groups[type][name], pending)
+    }
+
+    // Security schemes are referenced by name from security requirements
+    const schemes = new Set<string>()
+    collectSecuritySchemes(rest, schemes)
+    schemes.forEach(name => used.add(`securitySchemes/${name}`))
+
+    const pruned: Record<string, Record<string, unknown>> = {}
+    Object.entries(components).forEach(([type, group]) => {
+        const entries = Object.entries(group ?? {}).filter(([name]) => used.has(`${type}/${name}`))
+        if (entries.length > 0) pruned[type] = Object.fromEntries(entries)
+    })
+    if (Object.keys(pruned).length > 0) doc.components = pruned
+    else delete doc.components
+}
@@ -0,0 +1,193 @@
+import { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types'
+
+import { isHTTPMethod, isReferenceObject } from './utils'
+
+type Schema31 = OpenAPIV3_1.SchemaObject | OpenAPIV3_1.ReferenceObject
+type Schema30 = OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject
+
+// JSON Schema 2020-12 keywords without an equivalent in 3.0 schemas
+const unsupportedKeywords = [
+    '$schema',
+    '$id',
+    '$anchor',
+    '$defs',
+    '$comment',
+    'if',
+    'then',
+    'else',
+    'dependentRequired',
+    'dependentSchemas',
+    'unevaluatedItems',
+    'unevaluatedProperties',
+    'propertyNames',
+    'patternProperties',
+    'contains',
+    'minContains',
+    'maxContains',
+    'contentSchema',
+]
+
+function mapRecord<T, U>(record: Record<string, T> | undefined, fn: (value: T) => U) {
+    if (!record) return undefined
+    return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, fn(value)]))
+}
+
+// Convert a 3.1 schema (JSON Schema 2020-12) into the closest 3.0 schema
+export function downgradeSchema(schemaOrRef: Schema31): Schema30 {
+    if (isReferenceObject(schemaOrRef)) {
+        const { $ref, ...siblings }: { $ref: string } & Record<string, unknown> = schemaOrRef
+        // 3.0 ignores siblings of $ref, so keep them next to an allOf wrapper instead
+        const rest = Object.keys(siblings).filter(k => k !== 'summary')
+        if (rest.length === 0) return { $ref }
+        const { summary: _summary, ...kept } = siblings
+        return { ...downgradeSchema(kept as Schema31), allOf: [{ $ref }] } as Schema30
+    }
+
+    const schema: Record<string, unknown> = { ...schemaOrRef }
+    unsupportedKeywords.forEach(keyword => delete schema[keyword])
+
+    if (Array.isArray(schema.type)) {
+        const types: string[] = schema.type.filter((type: string) => type !== 'null')
+        if (types.length < schema.type.length) schema.nullable = true
+        if (types.length === 1) schema.type = types[0]
+        else {
+            delete schema.type
+            if (types.length > 1) schema.anyOf = types.map(type => ({ type }))
+        }
+    } else if (schema.type === 'null') {
+        delete schema.type
+        schema.nullable = true
+        schema.enum = [null]
+    }
+
+    if ('const' in schema) {
+        schema.enum = [schema.const]
+        delete schema.const
+    }
+    if (typeof schema.exclusiveMinimum === 'number') {
+        schema.minimum = schema.exclusiveMinimum
+        schema.exclusiveMinimum = true
+    }
+    if (typeof schema.exclusiveMaximum === 'number') {
+        schema.maximum = schema.exclusiveMaximum
+        schema.exclusiveMaximum = true
+    }
+    if (Array.isArray(schema.examples)) {
+        if (schema.examples.length > 0 && schema.example === undefined) {
+            schema.example = schema.examples[0]
+        }
+        delete schema.examples
+    }
+    if (schema.contentEncoding === 'base64') schema.format = 'byte'
+    else if (schema.contentMediaType === 'application/octet-stream') schema.format = 'binary'
+    delete schema.contentEncoding
+    delete schema.contentMediaType
+
+    if (schema.prefixItems) {
+        const prefixItems = (schema.prefixItems as Schema31[]).map(downgradeSchema)
+        schema.items = schema.items
+            ? { anyOf: [...prefixItems, downgradeSchema(schema.items as Schema31)] }
+            : { anyOf: prefixItems }
+        delete schema.prefixItems
+    } else if (schema.items) {
+        schema.items = downgradeSchema(schema.items as Schema31)
+    } else if (schema.type === 'array') {
+        schema.items = {}
+    }
+
+    schema.properties = mapRecord(
+        schema.properties as Record<string, Schema31> | undefined,
+        downgradeSchema,
+    )
+    if (typeof schema.additionalProperties === 'object') {
+        schema.additionalProperties = downgradeSchema(schema.additionalProperties as Schema31)
+    }
+    schema.allOf = (schema.allOf as Schema31[] | undefined)?.map(downgradeSchema)
+    schema.anyOf = (schema.anyOf as Schema31[] | undefined)?.map(downgradeSchema)
+    schema.oneOf = (schema.oneOf as Schema31[] | undefined)?.map(downgradeSchema)
+    if (schema.not) schema.not = downgradeSchema(schema.not as Schema31)
+
+    Object.keys(schema).forEach(key => schema[key] === undefined && delete schema[key])
+    return schema as OpenAPIV3.SchemaObject
+}
+
+// Reference objects in 3.1 may carry a summary and description which 3.0 does not allow
+function downgradeRef<T, U>(value: T | OpenAPIV3_1.ReferenceObject, fn: (value: T) => U) {
+    if (isReferenceObject(value)) return { $ref: value.$ref }
+    return fn(value as T)
+}
+
+function downgradeContent(content?: Record<string, OpenAPIV3_1.MediaTypeObject>) {
+    return mapRecord(content, media => ({
+        ...media,
+        schema: media.schema && downgradeSchema(media.schema),
+    }))
+}
+
+function downgradeParameter(param: OpenAPIV3_1.ParameterBaseObject) {
+    return {
+        ...param,
+        schema: param.schema && downgradeSchema(param.schema as Schema31),
+        content: downgradeContent(param.content as Record<string, OpenAPIV3_1.MediaTypeObject>),
+    }
+}
+
+function downgradeResponse(response: OpenAPIV3_1.ResponseObject) {
+    return {
+        ...response,
+        headers: mapRecord(response.headers, header => downgradeRef(header, downgradeParameter)),
+        content: downgradeContent(response.content),
+    }
+}
+
+function downgradeRequestBody(body: OpenAPIV3_1.RequestBodyObject) {
+    return { ...body, content: downgradeContent(body.content) }
+}
+
+function downgradeOperation(operation: OpenAPIV3_1.OperationObject): OpenAPIV3.OperationObject {
+    return {
+        ...operation,
+        parameters: operation.parameters?.map(p => downgradeRef(p, downgradeParameter)),
+        requestBody:
+            operation.requestBody && downgradeRef(operation.requestBody, downgradeRequestBody),
+        responses: mapRecord(operation.responses, r => downgradeRef(r, downgradeResponse)) ?? {},
+        callbacks: undefined,
+    } as OpenAPIV3.OperationObject
+}
+
+function downgradePathItem(pathItem: OpenAPIV3_1.PathItemObject): OpenAPIV3.PathItemObject {
+    const downgraded: Record<string, unknown> = { ...pathItem }
+    Object.entries(pathItem).forEach(([key, value]) => {
+        if (isHTTPMethod(key)) {
+            downgraded[key] = downgradeOperation(value as OpenAPIV3_1.OperationObject)
+        }
+    })
+    downgraded.parameters = pathItem.parameters?.map(p => downgradeRef(p, downgradeParameter))
+    return downgraded as OpenAPIV3.PathItemObject
+}
+
+// Convert a 3.1 document for consumers whose tooling only understands 3.0
+export function downgradeDocument(doc: OpenAPIV3_1.Document): OpenAPIV3.Document {
+    const { webhooks: _webhooks, jsonSchemaDialect: _dialect, ...rest } = doc
+    const { summary: _summary, ...info } = doc.info
+    const license = info.license && { name: info.license.name, url: info.license.url }
+    const components = doc.components && { ...doc.components }
+    delete components?.pathItems
+
+    return {
+        ...rest,
+        openapi: '3.0.3',
+        info: { ...info, license },
+        paths: mapRecord(doc.paths ?? {}, p => p && downgradePathItem(p)) as OpenAPIV3.PathsObject,
+        components: components && {
+            ...components,
+            schemas: mapRecord(components.schemas, downgradeSchema),
+            responses: mapRecord(components.responses, r => downgradeRef(r, downgradeResponse)),
+            parameters: mapRecord(components.parameters, p => downgradeRef(p, downgradeParameter)),
+            requestBodies: mapRecord(components.requestBodies, b =>
+                downgradeRef(b, downgradeRequestBody),
+            ),
+            headers: mapRecord(components.headers, h => downgradeRef(h, downgradeParameter)),
+        },
+    } as OpenAPIV3.Document
+}
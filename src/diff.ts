@@ -0,0 +1,326 @@
+import { OpenAPIV3 } from 'openapi-types'
+
+import { isHTTPMethod, isParameterObject, isReferenceObject, resolveReference } from './utils'
+import { DiffChange, DiffReport } from './types'
+
+type Schema = OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject
+type Direction = 'request' | 'response'
+
+interface Context {
+    base: OpenAPIV3.Document
+    head: OpenAPIV3.Document
+    changes: DiffChange[]
+}
+
+function report(
+    context: Context,
+    code: string,
+    breaking: boolean,
+    location: string,
+    message: string,
+): void {
+    context.changes.push({ code, breaking, location, message })
+}
+
+// 3.1 schemas may list several types, where "null" takes the place of nullable
+function typeList(schema: OpenAPIV3.SchemaObject): string[] {
+    const type: unknown = schema.type
+    if (Array.isArray(type)) return type
+    return typeof type === 'string' ? [type] : []
+}
+
+function typesOf(schema: OpenAPIV3.SchemaObject): string {
+    const types = typeList(schema).filter(type => type !== 'null')
+    if (types.length > 0) return [...new Set(types)].sort().join(' | ')
+    if (schema.properties) return 'object'
+    return ''
+}
+
+function isNullable(schema: OpenAPIV3.SchemaObject): boolean {
+    return !!schema.nullable || typeList(schema).includes('null')
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function missingFrom(values: unknown[], others: unknown[]): string {
+    return values
+        .filter(value => !others.some(other => isEqual(value, other)))
+        .map(value => JSON.stringify(value))
+        .join(', ')
+}
+
+// Compare two schemas; requests break when they accept less, responses when they return more
+function diffSchema(
+    context: Context,
+    baseOrRef: Schema | undefined,
+    headOrRef: Schema | undefined,
+    direction: Direction,
+    operationLocation: string,
+    pointer = '',
+    seen: Set<string> = new Set(),
+): void {
+    const location = pointer ? `${operationLocation} ${pointer}` : operationLocation
+
+    // Recursive schemas are only compared once per pair of references
+    const refOf = (schema?: Schema) => (isReferenceObject(schema) ? schema.$ref : '')
+    const key = `${refOf(baseOrRef)}|${refOf(headOrRef)}`
+    if (key !== '|') {
+        if (seen.has(key)) return
+        seen = new Set(seen).add(key)
+    }
+
+    const base = resolveReference<OpenAPIV3.SchemaObject>(context.base, baseOrRef)
+    const head = resolveReference<OpenAPIV3.SchemaObject>(context.head, headOrRef)
+    if (!base || !head) return
+
+    const baseType = typesOf(base)
+    const headType = typesOf(head)
+    if (baseType && headType && baseType !== headType) {
+        const message = `Type changed from ${baseType} to ${headType}`
+        report(context, 'type-changed', true, location, message)
+        return
+    }
+
+    const nullable = isNullable(head)
+    if (isNullable(base) !== nullable) {
+        const breaking = direction === 'request' ? !nullable : nullable
+        const message = nullable ? 'Value became nullable' : 'Value is no longer nullable'
+        report(context, 'nullable-changed', breaking, location, message)
+    }
+
+    if (base.enum && head.enum) {
+        const removed = missingFrom(base.enum, head.enum)
+        const added = missingFrom(head.enum, base.enum)
+        if (removed) {
+            const message = `Enum values removed: ${removed}`
+            report(context, 'enum-narrowed', direction === 'request', location, message)
+        }
+        if (added) {
+            const message = `Enum values added: ${added}`
+            report(context, 'enum-widened', direction === 'response', location, message)
+        }
+    } else if (!base.enum && head.enum) {
+        const message = 'Values restricted to an enum'
+        report(context, 'enum-added', direction === 'request', location, message)
+    }
+
+    const baseProperties = base.properties ?? {}
+    const headProperties = head.properties ?? {}
+    const baseRequired = new Set(base.required ?? [])
+    const headRequired = new Set(head.required ?? [])
+
+    Object.keys(baseProperties).forEach(name => {
+        const propertyPointer = `${pointer}/${name}`
+        const propertyLocation = `${operationLocation} ${propertyPointer}`
+        if (!(name in headProperties)) {
+            const breaking = direction === 'response'
+            report(context, 'property-removed', breaking, propertyLocation, 'Property removed')
+            return
+        }
+        if (direction === 'request' && !baseRequired.has(name) && headRequired.has(name)) {
+            report(context, 'property-required', true, propertyLocation, 'Property became required')
+        }
+        if (direction === 'response' && baseRequired.has(name) && !headRequired.has(name)) {
+            report(context, 'property-optional', true, propertyLocation, 'Property became optional')
+        }
+        diffSchema(
+            context,
+            baseProperties[name],
+            headProperties[name],
+            direction,
+            operationLocation,
+            propertyPointer,
+            seen,
+        )
+    })
+    Object.keys(headProperties)
+        .filter(name => !(name in baseProperties))
+        .forEach(name => {
+            const required = headRequired.has(name)
+            const breaking = direction === 'request' && required
+            const message = required ? 'Required property added' : 'Property added'
+            const propertyLocation = `${operationLocation} ${pointer}/${name}`
+            report(context, 'property-added', breaking, propertyLocation, message)
+        })
+
+    if (base.type === 'array' && head.type === 'array') {
+        const itemsPointer = `${pointer}/items`
+        const { items: baseItems } = base
+        diffSchema(context, baseItems, head.items, direction, operationLocation, itemsPointer, seen)
+    }
+}
+
+function diffContent(
+    context: Context,
+    base: Record<string, OpenAPIV3.MediaTypeObject> | undefined,
+    head: Record<string, OpenAPIV3.MediaTypeObject> | undefined,
+    direction: Direction,
+    location: string,
+): void {
+    Object.entries(base ?? {}).forEach(([type, media]) => {
+        const headMedia = head?.[type]
+        if (!headMedia) {
+            // Clients may still send the removed media type, or expect to receive it
+            report(context, 'media-type-removed', true, `${location} ${type}`, 'Media type removed')
+            return
+        }
+        diffSchema(context, media.schema, headMedia.schema, direction, `${location} ${type}`)
+    })
+    Object.keys(head ?? {})
+        .filter(type => !base?.[type])
+        .forEach(type => {
+            report(context, 'media-type-added', false, `${location} ${type}`, 'Media type added')
+        })
+}
+
+function parametersOf(
+    doc: OpenAPIV3.Document,
+    pathItem: OpenAPIV3.PathItemObject,
+    operation: OpenAPIV3.OperationObject,
+): Map<string, OpenAPIV3.ParameterObject> {
+    const parameters = new Map<string, OpenAPIV3.ParameterObject>()
+    const declared = [...(pathItem.parameters ?? []), ...(operation.parameters ?? [])]
+    declared.forEach(paramOrRef => {
+        const param = resolveReference<OpenAPIV3.ParameterObject>(doc, paramOrRef)
+        if (isParameterObject(param)) parameters.set(`${param.in}:${param.name}`, param)
+    })
+    return parameters
+}
+
+function diffOperation(
+    context: Context,
+    location: string,
+    basePathItem: OpenAPIV3.PathItemObject,
+    headPathItem: OpenAPIV3.PathItemObject,
+    base: OpenAPIV3.OperationObject,
+    head: OpenAPIV3.OperationObject,
+): void {
+    const baseParameters = parametersOf(context.base, basePathItem, base)
+    const headParameters = parametersOf(context.head, headPathItem, head)
+
+    baseParameters.forEach((param, key) => {
+        const paramLocation = `${location} ${param.in} parameter "${param.name}"`
+        const headParam = headParameters.get(key)
+        if (!headParam) {
+            report(context, 'parameter-removed', false, paramLocation, 'Parameter removed')
+            return
+        }
+        if (!param.required && headParam.required) {
+            report(context, 'parameter-required', true, paramLocation, 'Parameter became required')
+        }
+        diffSchema(context, param.schema, headParam.schema, 'request', paramLocation)
+    })
+    headParameters.forEach((param, key) => {
+        if (baseParameters.has(key)) return
+        const paramLocation = `${location} ${param.in} parameter "${param.name}"`
+        const message = param.required ? 'Required parameter added' : 'Parameter added'
+        report(context, 'parameter-added', !!param.required, paramLocation, message)
+    })
+
+    const baseBody = resolveReference<OpenAPIV3.RequestBodyObject>(context.base, base.requestBody)
+    const headBody = resolveReference<OpenAPIV3.RequestBodyObject>(context.head, head.requestBody)
+    const bodyLocation = `${location} request body`
+    if (headBody?.required && !baseBody?.required) {
+        const message = baseBody ? 'Request body became required' : 'Required request body added'
+        report(context, 'request-body-required', true, bodyLocation, message)
+    }
+    diffContent(context, baseBody?.content, headBody?.content, 'request', bodyLocation)
+
+    Object.entries(base.responses ?? {}).forEach(([status, responseOrRef]) => {
+        const responseLocation = `${location} response ${status}`
+        if (!head.responses?.[status]) {
+            report(context, 'response-removed', true, responseLocation, 'Response removed')
+            return
+        }
+        const baseResponse = resolveReference<OpenAPIV3.ResponseObject>(context.base, responseOrRef)
+        const headResponse = resolveReference<OpenAPIV3.ResponseObject>(
+            context.head,
+            head.responses[status],
+        )
+        diffContent(
+            context,
+            baseResponse?.content,
+            headResponse?.content,
+            'response',
+            responseLocation,
+        )
+    })
+    Object.keys(head.responses ?? {})
+        .filter(status => !base.responses?.[status])
+        .forEach(status => {
+            const responseLocation = `${location} response ${status}`
+            report(context, 'response-added', false, responseLocation, 'Response added')
+        })
+}
+
+// Classify the changes between two documents as breaking or non-breaking for existing clients
+export function diffDocuments(base: OpenAPIV3.Document, head: OpenAPIV3.Document): DiffReport {
+    const context: Context = { base, head, changes: [] }
+
+    Object.entries(base.paths ?? {}).forEach(([path, basePathItem]) => {
+        const headPathItem = head.paths?.[path]
+        if (!basePathItem) return
+        if (!headPathItem) {
+            report(context, 'path-removed', true, path, 'Path removed')
+            return
+        }
+
+        Object.keys(basePathItem)
+            .filter(isHTTPMethod)
+            .forEach(method => {
+                const location = `${method.toUpperCase()} ${path}`
+                const baseOperation = basePathItem[method]
+                const headOperation = headPathItem[method]
+                if (!baseOperation) return
+                if (!headOperation) {
+                    report(context, 'operation-removed', true, location, 'Operation removed')
+                    return
+                }
+                diffOperation(
+                    context,
+                    location,
+                    basePathItem,
+                    headPathItem,
+                    baseOperation,
+                    headOperation,
+                )
+            })
+        Object.keys(headPathItem)
+            .filter(isHTTPMethod)
+            .filter(method => !basePathItem[method])
+            .forEach(method => {
+                const location = `${method.toUpperCase()} ${path}`
+                report(context, 'operation-added', false, location, 'Operation added')
+            })
+    })
+    Object.keys(head.paths ?? {})
+        .filter(path => !base.paths?.[path])
+        .forEach(path => report(context, 'path-added', false, path, 'Path added'))
+
+    return {
+        breaking: context.changes.some(change => change.breaking),
+        changes: context.changes,
+    }
+}
+
+// Render a report as text, breaking changes first
+export function formatDiff(diff: DiffReport): string {
+    if (diff.changes.length === 0) return 'No changes\n'
+
+    const section = (title: string, changes: DiffChange[]) => {
+        if (changes.length === 0) return []
+        return [`${title}:`, ...changes.map(c => `- ${c.location}: ${c.message}`), '']
+    }
+    return [
+        ...section(
+            'Breaking changes',
+            diff.changes.filter(c => c.breaking),
+        ),
+        ...section(
+            'Non-breaking changes',
+            diff.changes.filter(c => !c.breaking),
+        ),
+    ].join('\n')
+}
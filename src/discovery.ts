@@ -0,0 +1,45 @@
+import { Router } from 'express'
+
+import { Layer } from './types'
+
+// Express 5 layers only keep a compiled matcher, so mount paths are recorded as layers are added
+const mountPaths = new WeakMap<Layer, string>()
+let isTracking = false
+
+function mountPathOf(args: unknown[]): string | undefined {
+    let arg = args[0]
+    while (Array.isArray(arg) && arg.length !== 0) arg = arg[0]
+    if (typeof arg === 'function') return '/'
+
+    // Several paths or regular expressions cannot be told apart from a single layer
+    if (typeof args[0] !== 'string') return undefined
+    return args[0]
+}
+
+// Record the mount path of every layer added through app.use() or router.use() from now on
+export function trackMountPaths(): void {
+    if (isTracking) return
+    isTracking = true
+
+    const proto = Router.prototype as Router
+    const use = proto.use
+    proto.use = function (this: Router, ...args: unknown[]) {
+        const size = this.stack.length
+        const result = use.apply(this, args as Parameters<typeof use>)
+        const path = mountPathOf(args)
+        if (path !== undefined) {
+            this.stack.slice(size).forEach(layer => mountPaths.set(layer, path))
+        }
+        return result
+    } as typeof use
+}
+
+// Recover the path a router was mounted at, undefined when it cannot be determined
+export function discoverMountPath(layer: Layer): string | undefined {
+    const path = mountPaths.get(layer)
+    if (path !== undefined) return path.replace(/\/+$/, '')
+
+    // Layers mounted without a path are flagged as matching every request
+    if ((layer as Layer & { slash?: boolean }).slash) return ''
+    return undefined
+}
@@ -0,0 +1,155 @@
+import { createHash } from 'crypto'
+import { Router, Request, Response } from 'express'
+import { documentToYAML } from './yaml'
+import { OpenAPIDocument } from './types'
+
+const styles = `
+body { font-family: system-ui, sans-serif; margin: 0 auto; max-width: 960px; padding: 1rem; color: #222; }
+header { border-bottom: 1px solid #ddd; margin-bottom: 1rem; }
+header a { margin-right: 1rem; }
+details { border: 1px solid #ddd; border-radius: 4px; margin: .5rem 0; }
+summary { cursor: pointer; padding: .5rem; font-family: monospace; }
+details > div { padding: 0 1rem 1rem; }
+.method { display: inline-block; min-width: 4.5rem; font-weight: bold; text-transform: uppercase; }
+.get { color: #0a7d32; } .post { color: #1b5ec2; } .put, .patch { color: #b26a00; }
+.delete { color: #c2271b; } .deprecated { text-decoration: line-through; opacity: .6; }
+table { border-collapse: collapse; width: 100%; } td, th { border-bottom: 1px solid #eee; padding: .25rem; text-align: left; }
+pre { background: #f6f8fa; padding: .5rem; overflow: auto; }
+`
+
+// Renders the embedded document client-side without loading any external resources
+const script = `
+(function () {
+    var doc = JSON.parse(document.getElementById('openapi-document').textContent)
+    var root = document.getElementById('openapi-viewer')
+    var methods = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace']
+
+    function el(tag, attrs, children) {
+        var node = document.createElement(tag)
+        Object.keys(attrs || {}).forEach(function (k) { node.setAttribute(k, attrs[k]) })
+        ;(children || []).forEach(function (c) {
+            node.appendChild(typeof c === 'string' ? document.createTextNode(c) : c)
+        })
+        return node
+    }
+    function json(value) { return el('pre', {}, [JSON.stringify(value, null, 2)]) }
+    function section(title, nodes) { return nodes.length ? [el('h4', {}, [title])].concat(nodes) : [] }
+
+    function parameters(params) {
+        if (!params || !params.length) return []
+        var rows = params.map(function (p) {
+            if (p.$ref) return el('tr', {}, [el('td', { colspan: '4' }, [p.$ref])])
+            return el('tr', {}, [
+                el('td', {}, [p.name]), el('td', {}, [p.in]),
+                el('td', {}, [p.required ? 'required' : '']), el('td', {}, [p.description || '']),
+            ])
+        })
+        return section('Parameters', [el('table', {}, rows)])
+    }
+    function content(body) {
+        if (!body) return []
+        if (body.$ref) return [json(body)]
+        return Object.keys(body.content || {}).map(function (type) {
+            return el('div', {}, [el('code', {}, [type]), json(body.content[type].schema || {})])
+        })
+    }
+    function responses(res) {
+        return section('Responses', Object.keys(res || {}).map(function (code) {
+            var r = res[code]
+            return el('div', {}, [el('strong', {}, [code + ' ']), r.description || r.$ref || '']
+                .concat(content(r)))
+        }))
+    }
+
+    var info = doc.info || {}
+    root.appendChild(el('h1', {}, [info.title || 'API', ' ', el('small', {}, [info.version || ''])]))
+    if (info.description) root.appendChild(el('p', {}, [info.description]))
+
+    Object.keys(doc.paths || {}).forEach(function (path) {
+        methods.forEach(function (method) {
+            var op = doc.paths[path][method]
+            if (!op) return
+            var summary = el('summary', { class: op.deprecated ? 'deprecated' : '' }, [
+                el('span', { class: 'method ' + method }, [method]), path, ' ', op.summary || '',
+            ])
+            var body = [op.description ? el('p', {}, [op.description]) : el('span')]
+                .concat(parameters(op.parameters))
+                .concat(section('Request body', content(op.requestBody)))
+                .concat(responses(op.responses))
+            root.appendChild(el('details', {}, [summary, el('div', {}, body)]))
+        })
+    })
+    if (doc.components) {
+        root.appendChild(el('h2', {}, ['Components']))
+        root.appendChild(json(doc.components))
+    }
+})()
+`
+
+function escapeHTML(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+}
+
+// Build a self-contained HTML page rendering the given document
+export function renderDocsPage(doc: OpenAPIDocument, prefix: string): string {
+    const title = escapeHTML(doc.info?.title || 'API documentation')
+    // Prevent the embedded JSON from terminating the script element
+    const data = JSON.stringify(doc).replace(/</g, '\\u003c')
+
+    return [
+        '<!DOCTYPE html>',
+        '<html lang="en">',
+        '<head>',
+        '<meta charset="utf-8">',
+        '<meta name="viewport" content="width=device-width, initial-scale=1">',
+        `<title>${title}</title>`,
+        `<style>${styles}</style>`,
+        '</head>',
+        '<body>',
+        '<header>',
+        `<a href="${escapeHTML(prefix)}/openapi.json">openapi.json</a>`,
+        `<a href="${escapeHTML(prefix)}/openapi.yaml">openapi.yaml</a>`,
+        '</header>',
+        '<main id="openapi-viewer"></main>',
+        `<script type="application/json" id="openapi-document">${data}</script>`,
+        `<script>${script}</script>`,
+        '</body>',
+        '</html>',
+    ].join('\n')
+}
+
+function sendCached(req: Request, res: Response, contentType: string, body: string) {
+    const etag = `"${createHash('sha1').update(body).digest('base64url')}"`
+    res.set({
+        'Content-Type': contentType,
+        'Cache-Control': 'no-cache',
+        ETag: etag,
+    })
+    if (req.fresh) {
+        res.status(304).end()
+        return
+    }
+    res.send(body)
+}
+
+// Create a router serving the document as JSON, YAML and an HTML viewer under the given prefix
+export function createDocsRouter(prefix: string, getDocument: () => OpenAPIDocument): Router {
+    const router = Router()
+    const base = prefix.replace(/\/+$/, '')
+
+    router.get(`${base}/openapi.json`, (req: Request, res: Response) => {
+        sendCached(req, res, 'application/json; charset=utf-8', JSON.stringify(getDocument()))
+    })
+    router.get(`${base}/openapi.yaml`, (req: Request, res: Response) => {
+        sendCached(req, res, 'application/yaml; charset=utf-8', documentToYAML(getDocument()))
+    })
+    router.get(base || '/', (req: Request, res: Response) => {
+        sendCached(req, res, 'text/html; charset=utf-8', renderDocsPage(getDocument(), base))
+    })
+
+    return router
+}
@@ -1,6 +1,14 @@
 import { Router } from 'express'
 
-import { Layer, RouterInfo, PathInfo } from './types'
+import {
+    ComponentType,
+    Layer,
+    LintDiagnostic,
+    RouterInfo,
+    PathInfo,
+    SchemaIssue,
+    ValidationIssue,
+} from './types'
 
 abstract class RouterError extends Error {
     protected constructor(message: string) {
@@ -61,3 +69,130 @@ export class WildcardPathError extends RouterError {
         return this.pathInfo
     }
 }
+
+export class RequestValidationError extends RouterError {
+    public readonly code = 'REQUEST_VALIDATION_FAILED'
+    public readonly status = 400
+    private readonly issues: ValidationIssue[]
+
+    constructor(method: string, path: string, issues: ValidationIssue[]) {
+        const details = [
+            'Request does not match the documented operation',
+            `- Operation: ${method.toUpperCase()} "${path}"`,
+            ...issues.map(i => `- ${i.in}${i.name ? ` "${i.name}"` : ''}${i.path}: ${i.message}`),
+        ].join('\n')
+
+        super(details)
+
+        this.issues = issues
+    }
+
+    public getIssues(): ValidationIssue[] {
+        return this.issues
+    }
+
+    public toJSON() {
+        return {
+            code: this.code,
+            message: 'Request validation failed',
+            errors: this.issues,
+        }
+    }
+}
+
+export class ResponseValidationError extends RouterError {
+    public readonly code = 'RESPONSE_VALIDATION_FAILED'
+    private readonly issues: SchemaIssue[]
+
+    constructor(method: string, path: string, status: number, issues: SchemaIssue[]) {
+        const details = [
+            'Response does not match the documented operation',
+            `- Operation: ${method.toUpperCase()} "${path}"`,
+            `- Status code: ${status}`,
+            ...issues.map(i => `- ${i.path || 'response'}: ${i.message}`),
+        ].join('\n')
+
+        super(details)
+
+        this.issues = issues
+    }
+
+    public getIssues(): SchemaIssue[] {
+        return this.issues
+    }
+}
+
+export class DuplicateComponentError extends RouterError {
+    public readonly code = 'DUPLICATE_COMPONENT'
+
+    constructor(type: ComponentType, name: string) {
+        const details = [
+            'A different component has already been registered under this name',
+            `- Component: "#/components/${type}/${name}"`,
+        ].join('\n')
+
+        super(details)
+    }
+}
+
+export class UnsupportedFeatureError extends RouterError {
+    public readonly code = 'UNSUPPORTED_FEATURE'
+
+    constructor(feature: string, version: string) {
+        const details = [
+            'Feature is not available in this OpenAPI version',
+            `- Feature: ${feature}`,
+            `- Document version: ${version}`,
+        ].join('\n')
+
+        super(details)
+    }
+}
+
+export class AuthenticationError extends RouterError {
+    public readonly code = 'AUTHENTICATION_FAILED'
+    public readonly status = 401
+
+    constructor(scheme: string, reason: string) {
+        const details = [
+            'Request could not be authenticated',
+            `- Security scheme: "${scheme}"`,
+            `- Reason: ${reason}`,
+        ].join('\n')
+
+        super(details)
+    }
+
+    public toJSON() {
+        return {
+            code: this.code,
+            message: 'Authentication required',
+        }
+    }
+}
+
+export class DocumentLintError extends RouterError {
+    public readonly code = 'DOCUMENT_LINT_FAILED'
+    private readonly diagnostics: LintDiagnostic[]
+
+    constructor(diagnostics: LintDiagnostic[]) {
+        const errors = diagnostics.filter(d => d.severity === 'error')
+        const details = [
+            'Generated document does not pass linting',
+            ...errors.map(d => {
+                const route = d.route ?? d.path
+                const location = d.method ? `${d.method.toUpperCase()} "${route}"` : d.path
+                const router = d.router ? ` in router "${d.router}"` : ''
+                return `- ${d.rule}: ${location}${router}: ${d.message}`
+            }),
+        ].join('\n')
+
+        super(details)
+
+        this.diagnostics = diagnostics
+    }
+
+    public getDiagnostics(): LintDiagnostic[] {
+        return this.diagnostics
+    }
+}
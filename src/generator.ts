@@ -1,19 +1,109 @@
-import { OpenAPIV3 } from 'openapi-types'
-import { Handler, Router } from 'express'
+import { METHODS } from 'http'
+import { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types'
+import { Application, Handler, Request, RequestParamHandler, Router } from 'express'
 import * as PathToRegexp from 'path-to-regexp'
 
-import { RouterRegistrationError, WildcardPathError } from './errors'
-import { parseKeys, isRouter, isParameterObject, isHTTPMethod } from './utils'
+import {
+    DocumentLintError,
+    RouterRegistrationError,
+    UnsupportedFeatureError,
+    WildcardPathError,
+} from './errors'
+import { ComponentRegistry, componentRef, hoistSchemas, pruneComponents } from './components'
+import { documentToYAML } from './yaml'
+import { discoverMountPath, trackMountPaths } from './discovery'
+import { lintDocument } from './lint'
+import { deriveOperationId, handlerNameOf, methodOperationId, uniqueOperationId } from './naming'
+import {
+    addSecurityRequirement,
+    deepMerge,
+    expandOptionalGroups,
+    parseKeys,
+    isRouter,
+    isParameterObject,
+    isReferenceObject,
+    isHTTPMethod,
+    mergeOperations,
+    toOpenAPIPath,
+} from './utils'
 
-import { Layer } from './types'
+import {
+    ComponentType,
+    ComponentValue,
+    CoverageReport,
+    Diagnostic,
+    DocumentOf,
+    DocumentSelector,
+    GeneratorOptions,
+    Layer,
+    LintDiagnostic,
+    LintOperation,
+    OpenAPIDocument,
+    OperationMatch,
+    OperationOf,
+    ParameterSchema,
+    RouteCoverage,
+    RouteOptions,
+    RouterDefaults,
+} from './types'
 
-export class OpenAPIGenerator {
+type Route = NonNullable<Layer['route']>
+
+// Methods documented for routes registered with all() unless configured otherwise
+const defaultAllMethods = ['get', 'post', 'put', 'patch', 'delete']
+
+// Security middleware mounted with use(), which guards paths of the stack it was mounted on
+interface Guard {
+    layer: Layer
+    base: string
+    requirement: OpenAPIV3.SecurityRequirementObject
+}
+
+function guardsPath(guard: Guard, path: string): boolean {
+    const layer = guard.layer as Layer & {
+        slash?: boolean
+        matchers?: ((path: string) => unknown)[]
+    }
+    if (layer.slash) return true
+    // Layers only keep compiled matchers, which are tested against the route path pattern
+    const relative = path.slice(guard.base.length)
+    return (layer.matchers ?? []).some(matcher => matcher(relative) !== false)
+}
+
+interface OperationSource {
+    handlerName?: string
+    routers: Router[]
+}
+
+export class OpenAPIGenerator<D extends OpenAPIDocument = OpenAPIV3.Document> {
     private doc: OpenAPIV3.Document
+    private options: GeneratorOptions
+    private basePaths: OpenAPIV3.PathsObject
+    private baseComponents?: OpenAPIV3.ComponentsObject
+    private components: ComponentRegistry
     private basePath: string
     private schemaMap: Map<Handler, OpenAPIV3.OperationObject>
     private routerMap: Map<Router, string>
+    private routerDefaults: Map<Router, RouterDefaults>
+    private securityMap: Map<Handler, OpenAPIV3.SecurityRequirementObject>
+    private paramSchemas: Map<RequestParamHandler, ParameterSchema>
+    private routeOptions: Map<Handler, RouteOptions>
+    private diagnostics: Diagnostic[]
+    private coverage: Map<string, RouteCoverage>
+    private operations: LintOperation[]
+    private lintResults: LintDiagnostic[]
+    // Router layers above the stack being walked, innermost last
+    private routerLayers: Layer[]
+    // Router passed to the last generation, whose param handlers apply to its own routes
+    private rootRouter?: Router
+    // Route being walked, whose handlers name generated operationIds
+    private currentRoute?: Route
+    // Operations written during the last generation and where they were found
+    private sources: Map<OpenAPIV3.OperationObject, OperationSource>
+    // Compiled Express routes of documented operations, to find the operation of a request
+    private routeMatchers: Map<string, PathToRegexp.MatchFunction<object>>
 
-    constructor(baseDoc: OpenAPIV3.Document) {
+    constructor(baseDoc: D, options: GeneratorOptions = {}) {
         const minDoc = {
             openapi: '3.0.0',
             info: {
@@ -23,110 +113,549 @@ export class OpenAPIGenerator {
             paths: {},
         } as const
 
-        this.doc = Object.assign(minDoc, baseDoc)
-        this.basePath = baseDoc.servers?.[0].url ?? '/'
+        // 3.1 documents share the structure of 3.0 documents apart from schemas and webhooks
+        const doc = baseDoc as OpenAPIV3.Document
+        this.doc = Object.assign(minDoc, doc)
+        this.options = options
+        this.basePaths = doc.paths ?? {}
+        this.baseComponents = doc.components
+        this.components = new ComponentRegistry()
+        this.doc.paths = this.copyBasePaths()
+        this.basePath = doc.servers?.[0].url ?? '/'
         this.schemaMap = new Map()
         this.routerMap = new Map()
+        this.routerDefaults = new Map()
+        this.securityMap = new Map()
+        this.paramSchemas = new Map()
+        this.routeOptions = new Map()
+        this.diagnostics = []
+        this.coverage = new Map()
+        this.operations = []
+        this.lintResults = []
+        this.routerLayers = []
+        this.sources = new Map()
+        this.routeMatchers = new Map()
+
+        if (options.discoverRouters) trackMountPaths()
+    }
+
+    // Paths declared in the base document are copied so that generation never mutates them
+    private copyBasePaths(): OpenAPIV3.PathsObject {
+        return Object.fromEntries(
+            Object.entries(this.basePaths).map(([path, pathItem]) => [path, { ...pathItem }]),
+        )
+    }
+
+    // Methods answered by a route. Routes answering every method were registered with all(),
+    // which Express 5 expands into a layer per method, and are documented for allMethods
+    private routeMethods(route: Route): string[] {
+        const methods = [...new Set(route.stack.map(l => l.method?.toLowerCase()))]
+        const declared = methods.filter((method): method is string => method !== undefined)
+        const answersAll = METHODS.every(method => declared.includes(method.toLowerCase()))
+        if (declared.length > 0 && !answersAll) return declared
+        return this.options.allMethods ?? defaultAllMethods
+    }
+
+    // Layers handling a method, including those registered with all()
+    private methodLayers(route: Route, method: string): Layer[] {
+        return route.stack.filter(l => l.method === undefined || l.method.toLowerCase() === method)
+    }
+
+    // Schemas registered for a specific method take precedence over those registered with all()
+    private schemaLayer(route: Route, method: string): Layer | undefined {
+        const layers = this.methodLayers(route, method).filter(l => this.schemaMap.has(l.handle))
+        return layers.find(l => l.method !== undefined) ?? layers[0]
+    }
+
+    // Security handlers guarding a method of a route, including those registered with all()
+    private routeSecurity(route: Route, method: string, defaults?: RouterDefaults) {
+        return this.methodLayers(route, method).reduce((merged, l) => {
+            const requirement = this.securityMap.get(l.handle)
+            return requirement ? addSecurityRequirement(merged, requirement) : merged
+        }, defaults)
+    }
+
+    private addRoute(path: string, route: Route, guards: Guard[], defaults?: RouterDefaults) {
+        const paths: string[] = Array.isArray(route.path) ? route.path : [route.path]
+
+        paths.forEach(p => {
+            const pathDefaults = guards
+                .filter(guard => guardsPath(guard, path + p))
+                .reduce(
+                    (merged, guard) => addSecurityRequirement(merged, guard.requirement),
+                    defaults,
+                )
+            this.routeMethods(route).forEach(method => {
+                const methodDefaults = this.routeSecurity(route, method, pathDefaults)
+                const layer = this.schemaLayer(route, method)
+                if (layer) {
+                    const schema = this.schemaMap.get(layer.handle) as OpenAPIV3.OperationObject
+                    const operation = mergeOperations(methodDefaults, schema)
+                    this.addOperation(path + p, method, layer, operation, true)
+                } else {
+                    this.addUndocumented(path + p, method, route, methodDefaults)
+                }
+            })
+        })
+    }
+
+    // Routes without a schema are recorded for the coverage report and optionally documented
+    private addUndocumented(
+        path: string,
+        method: string,
+        route: Route,
+        defaults?: RouterDefaults,
+    ): void {
+        const layer = this.methodLayers(route, method)[0]
+        const stub = {
+            responses: { default: { description: 'Undocumented' } },
+            'x-undocumented': true,
+        } as OpenAPIV3.OperationObject
+        this.addOperation(path, method, layer, mergeOperations(defaults, stub), false)
+    }
+
+    // A route counts as documented if any of its registrations carries a schema
+    private recordCoverage(method: string, path: string, documented: boolean): void {
+        const key = `${method} ${path}`
+        if (!this.coverage.get(key)?.documented) {
+            this.coverage.set(key, { method, path, documented })
+        }
+    }
+
+    // Param handlers only run for routes of the router they were registered on, so the schema
+    // comes from the innermost router, then from the pathParameters option
+    private pathParameterSchema(name: string): ParameterSchema {
+        const router = this.routerLayers[this.routerLayers.length - 1]?.handle ?? this.rootRouter
+        const handlers: RequestParamHandler[] =
+            (router as { params?: Record<string, RequestParamHandler[]> })?.params?.[name] ?? []
+        const annotated = handlers.find(handler => this.paramSchemas.has(handler))
+        if (annotated) return this.paramSchemas.get(annotated) as ParameterSchema
+        return this.options.pathParameters?.[name] ?? { type: 'string' }
+    }
+
+    // The last handler registered for the method is the one answering the request
+    private handlerName(method: string): string | undefined {
+        const route = this.currentRoute
+        const handlers = (route ? this.methodLayers(route, method) : []).filter(
+            l => !this.securityMap.has(l.handle),
+        )
+        return handlerNameOf(handlers[handlers.length - 1]?.name)
+    }
+
+    // A schema used for several methods, paths or optional group expansions declares its
+    // operationId once. The first operation keeps it, the others get their method appended
+    // and are numbered on collisions
+    private distinctOperationId(id: string, method: string, declared: object): string {
+        const siblings = this.operations.filter(entry => entry.declared === declared)
+        if (siblings.length === 0) return id
+        const { operationIds } = this.options
+        const options = typeof operationIds === 'object' ? operationIds : {}
+        const taken = new Set(siblings.map(entry => entry.operation.operationId ?? ''))
+        const base = siblings[0].method === method ? id : methodOperationId(id, method, options)
+        return uniqueOperationId(base, taken, options)
     }
 
-    private getParams(path: string, layer: Layer): void {
+    private addOperation(
+        path: string,
+        method: string,
+        layer: Layer,
+        schema: OpenAPIV3.OperationObject,
+        documented: boolean,
+    ): void {
+        const route = path
         if (this.basePath && path.startsWith(this.basePath)) {
             path = path.replace(this.basePath, '')
         }
 
-        const schema = this.schemaMap.get(layer.handle)
-        if (!schema) return
-
-        const method = layer.method.toLowerCase()
         if (!isHTTPMethod(method)) return
 
-        const operation = Object.assign({}, schema)
-
         // Add route params obtained from parsed route paths
         const tokenData = PathToRegexp.parse(path)
         const keys = parseKeys(tokenData)
+        const expanded = expandOptionalGroups(tokenData.tokens)
+        const recordCoverage = (isDocumented: boolean) => {
+            expanded.forEach(tokens => {
+                this.recordCoverage(method, toOpenAPIPath(tokens), isDocumented)
+            })
+        }
 
-        // As of version 3.0.0 OpenAPI does not support wildcard paths
-        if (keys.find(k => k.type === 'wildcard')) {
-            throw new WildcardPathError(path, layer.name)
+        if (!documented && !this.options.includeUndocumented) {
+            recordCoverage(false)
+            return
         }
 
-        const params = keys.map(k => {
-            const param =
-                schema.parameters &&
-                schema.parameters.find(p => {
-                    if (!isParameterObject(p)) return false
-                    if (p.name !== k.name) return false
-                    if (p.in !== 'path') return false
-                    return true
-                })
+        // OpenAPI has no notion of wildcard paths, so they are skipped or documented as parameters
+        if (keys.find(k => k.type === 'wildcard')) {
+            const policy =
+                this.routeOptions.get(layer.handle)?.wildcardPaths ??
+                this.options.wildcardPaths ??
+                'throw'
+            const error = new WildcardPathError(path, layer.name)
+            if (policy === 'throw') throw error
+            if (policy === 'skip') {
+                this.diagnostics.push({ code: error.code, message: error.message, method, path })
+                recordCoverage(false)
+                return
+            }
+        }
 
-            return Object.assign(
-                {
+        // OpenAPI path params are always required, so every combination of optional groups
+        // becomes a path of its own
+        expanded.forEach(tokens => {
+            const operation = Object.assign({}, schema)
+            const pathParams = parseKeys(new PathToRegexp.TokenData(tokens)).map(k => {
+                const param = schema.parameters?.find(
+                    (p): p is OpenAPIV3.ParameterObject =>
+                        isParameterObject(p) && p.in === 'path' && p.name === k.name,
+                )
+                const inferred: OpenAPIV3.ParameterObject = {
                     name: k.name,
                     in: 'path',
-                    required: k.required,
-                    schema: { type: 'string' },
-                } satisfies OpenAPIV3.ParameterObject,
-                param || {},
+                    required: true,
+                    schema: this.pathParameterSchema(k.name),
+                    ...(k.type === 'wildcard' && {
+                        description: 'Matches the rest of the path and may contain slashes',
+                    }),
+                }
+                // Declarations only need the properties that differ from the inferred ones, but
+                // a declared type or reference replaces the inferred schema altogether
+                const declared = param?.schema
+                const replaces = declared && (isReferenceObject(declared) || 'type' in declared)
+                return {
+                    ...deepMerge(inferred, param),
+                    schema: replaces ? declared : deepMerge(inferred.schema, declared),
+                    required: true,
+                }
+            })
+            // Declared path params are replaced by those of the concrete path
+            const otherParams = (schema.parameters ?? []).filter(
+                p => !isParameterObject(p) || p.in !== 'path',
             )
-        })
-
-        operation.parameters = params
+            operation.parameters = [...pathParams, ...otherParams]
+            const declared = this.schemaMap.get(layer.handle) ?? schema
+            if (operation.operationId) {
+                operation.operationId = this.distinctOperationId(
+                    operation.operationId,
+                    method,
+                    declared,
+                )
+            }
 
-        // Replace express-style route params with OpenAPI-style route params
-        path = path.replace(/\{:(\w+)\}/g, ':$1')
-        path = path.replace(/:(\w+)/g, '{$1}')
+            const openAPIPath = toOpenAPIPath(tokens)
+            const pathObj = this.doc.paths[openAPIPath] ?? {}
+            pathObj[method] = operation
+            this.doc.paths[openAPIPath] = pathObj
+            this.sources.set(operation, {
+                handlerName: this.handlerName(method),
+                routers: this.routerLayers.map(l => l.handle as Router),
+            })
+            this.recordCoverage(method, openAPIPath, documented)
+            if (documented) {
+                this.operations.push({
+                    method,
+                    path: openAPIPath,
+                    route,
+                    router: this.routerLayers[this.routerLayers.length - 1]?.name,
+                    routeParams: keys.map(k => String(k.name)),
+                    declared,
+                    operation,
+                })
+            }
+        })
+    }
 
-        const pathObj = this.doc.paths[path] ?? {}
-        pathObj[method] = operation
-        this.doc.paths[path] = pathObj
-        this.schemaMap.set(layer.handle, operation)
+    private walkStack(
+        path: string,
+        stack: Layer[],
+        defaults?: RouterDefaults,
+        guards: Guard[] = [],
+    ): void {
+        stack.forEach(layer => {
+            // Authentication middleware mounted with use() guards the routes after it that are
+            // under its mount path
+            const requirement = this.securityMap.get(layer.handle)
+            if (requirement) guards = [...guards, { layer, base: path, requirement }]
+            this.recurseStack(path, layer, guards, defaults)
+        })
     }
 
-    private recurseStack(path: string, layer: Layer): void {
+    private recurseStack(
+        path: string,
+        layer: Layer,
+        guards: Guard[],
+        defaults?: RouterDefaults,
+    ): void {
         const route = layer.route
 
-        this.getParams(path, layer)
         if (layer.name === 'router' && isRouter(layer.handle)) {
             const router = layer.handle
-            const routerPath = this.routerMap.get(layer.handle)
-            if (!routerPath) {
+            const discovered = this.options.discoverRouters ? discoverMountPath(layer) : undefined
+            const routerPath = discovered ?? this.routerMap.get(layer.handle)
+            if (routerPath === undefined) {
                 throw new RouterRegistrationError(layer, path)
             }
 
-            router.stack.forEach(routeLayer => {
-                this.recurseStack(path + routerPath, routeLayer)
-            })
+            // Nested routers compose their defaults with those of the routers above them
+            const ownDefaults = this.routerDefaults.get(router)
+            const routerDefaults = ownDefaults ? mergeOperations(defaults, ownDefaults) : defaults
+            this.routerLayers.push(layer)
+            this.walkStack(path + routerPath, router.stack, routerDefaults, guards)
+            this.routerLayers.pop()
         }
         if (!route) return
-        if (Array.isArray(route.path)) {
-            const schemaLayer = route.stack.find(l => this.schemaMap.get(l.handle))
-            if (!schemaLayer) return
-            route.path.forEach(p => this.recurseStack(path + p, schemaLayer))
-            return
+        this.currentRoute = route
+        this.addRoute(path, route, guards, defaults)
+    }
+
+    // Operations without an operationId are named after their handler or their method and path,
+    // numbered on collisions with ids declared by the application or generated before
+    private assignOperationIds(): void {
+        const { operationIds } = this.options
+        const options = typeof operationIds === 'object' ? operationIds : {}
+        const pathItems = Object.entries(this.doc.paths)
+        const operations = pathItems.flatMap(([path, pathItem]) =>
+            Object.keys(pathItem ?? {})
+                .filter(isHTTPMethod)
+                .map(method => ({ path, method, pathItem: pathItem as OpenAPIV3.PathItemObject })),
+        )
+        const taken = new Set(
+            operations.map(({ pathItem, method }) => pathItem[method]?.operationId).filter(Boolean),
+        ) as Set<string>
+
+        operations.forEach(({ path, method, pathItem }) => {
+            const operation = pathItem[method] as OpenAPIV3.OperationObject
+            if (operation.operationId) return
+            const handlerName = this.sources.get(operation)?.handlerName
+            const id = deriveOperationId({ method, path, handlerName }, options)
+            const operationId = uniqueOperationId(id, taken, options)
+            // Operations of the base document are copied so that generation never mutates them
+            if (this.sources.has(operation)) operation.operationId = operationId
+            else pathItem[method] = { ...operation, operationId }
+        })
+    }
+
+    private isSelected(
+        selector: DocumentSelector,
+        operation: OpenAPIV3.OperationObject,
+        method: string,
+        path: string,
+    ): boolean {
+        const routers = this.sources.get(operation)?.routers ?? []
+        const visibility = ([] as unknown[]).concat(
+            (operation as Record<string, unknown>)['x-visibility'] ?? [],
+        )
+        // Paths are compared with a leading slash whether or not the base path left one
+        const normalize = (value: string) => `/${value.replace(/^\/+|\/+$/g, '')}`
+        const hasPrefix = (prefix: string) =>
+            normalize(prefix) === '/' ||
+            normalize(path) === normalize(prefix) ||
+            normalize(path).startsWith(`${normalize(prefix)}/`)
+
+        if (selector.tags && !selector.tags.some(tag => operation.tags?.includes(tag))) return false
+        if (selector.routers && !selector.routers.some(r => routers.includes(r))) return false
+        if (selector.pathPrefixes && !selector.pathPrefixes.some(hasPrefix)) return false
+        if (selector.visibility && !selector.visibility.some(v => visibility.includes(v))) {
+            return false
+        }
+        return !selector.filter || selector.filter(operation, method, path)
+    }
+
+    private selectDocument(name: string): OpenAPIV3.Document {
+        const options = this.options.documents?.[name] ?? {}
+        const selector = options.include ?? {}
+
+        const paths: OpenAPIV3.PathsObject = {}
+        Object.entries(this.doc.paths).forEach(([path, pathItem]) => {
+            if (!pathItem) return
+            const methods = Object.keys(pathItem).filter(isHTTPMethod)
+            const selected = methods.filter(method => {
+                const operation = pathItem[method] as OpenAPIV3.OperationObject
+                return this.isSelected(selector, operation, method, path)
+            })
+            if (selected.length === 0) return
+            const rest = Object.entries(pathItem).filter(([key]) => !isHTTPMethod(key))
+            paths[path] = Object.fromEntries([
+                ...rest,
+                ...selected.map(method => [method, pathItem[method]]),
+            ])
+        })
+
+        const doc: OpenAPIV3.Document = {
+            ...this.doc,
+            info: { ...this.doc.info, ...options.info },
+            servers: options.servers ?? this.doc.servers,
+            paths,
+        }
+        if (!doc.servers) delete doc.servers
+        if (doc.tags) {
+            const used = new Set(
+                Object.values(paths).flatMap(pathItem =>
+                    Object.keys(pathItem ?? {})
+                        .filter(isHTTPMethod)
+                        .flatMap(method => pathItem?.[method]?.tags ?? []),
+                ),
+            )
+            doc.tags = doc.tags.filter(tag => used.has(tag.name))
         }
-        route.stack.forEach(l => this.recurseStack(path + route.path, l))
+        pruneComponents(doc)
+        return doc
     }
 
-    public initializeDoc(router?: Router): OpenAPIV3.Document {
+    public isVersion31(): boolean {
+        return this.doc.openapi.startsWith('3.1')
+    }
+
+    public initializeDoc(router?: Router): DocumentOf<D> {
+        // Start from the base document on every run so that generation is idempotent
+        this.doc.paths = this.copyBasePaths()
+        this.doc.components = this.components.merge(this.baseComponents)
+        this.diagnostics = []
+        this.coverage = new Map()
+        this.operations = []
+        this.lintResults = []
+        this.sources = new Map()
+        this.rootRouter = router
         if (router) {
-            for (const layer of router.stack) {
-                this.recurseStack('', layer)
+            this.walkStack('', router.stack)
+        }
+        if (this.options.operationIds) {
+            this.assignOperationIds()
+        }
+        if (this.options.hoistSchemas) {
+            hoistSchemas(this.doc)
+        }
+        if (this.options.lint) {
+            const lintOptions = typeof this.options.lint === 'object' ? this.options.lint : {}
+            this.lintResults = lintDocument(this.doc, this.operations, lintOptions)
+            if (this.lintResults.some(d => d.severity === 'error')) {
+                throw new DocumentLintError(this.lintResults)
             }
         }
-        return this.doc
+        return this.getDocument()
+    }
+
+    public generate(target: Application | Router): DocumentOf<D> {
+        const router = isRouter(target) ? target : (target as Application).router
+        return this.initializeDoc(router)
+    }
+
+    public addSchema(handler: Handler, schema: OperationOf<D>, options?: RouteOptions): void {
+        this.schemaMap.set(handler, schema as OpenAPIV3.OperationObject)
+        if (options) this.routeOptions.set(handler, options)
+    }
+
+    public addSecurity(handler: Handler, requirement: OpenAPIV3.SecurityRequirementObject): void {
+        this.securityMap.set(handler, requirement)
+    }
+
+    public addParamSchema(handler: RequestParamHandler, schema: ParameterSchema): void {
+        this.paramSchemas.set(handler, schema)
+    }
+
+    public addWebhook(name: string, pathItem: OpenAPIV3_1.PathItemObject): void {
+        if (!this.isVersion31()) {
+            throw new UnsupportedFeatureError('webhooks', this.doc.openapi)
+        }
+        const doc = this.doc as OpenAPIV3_1.Document
+        doc.webhooks = { ...doc.webhooks, [name]: pathItem }
+    }
+
+    public registerComponent<T extends ComponentType>(
+        type: T,
+        name: string,
+        value: ComponentValue<T>,
+    ): OpenAPIV3.ReferenceObject {
+        if (type === 'pathItems' && !this.isVersion31()) {
+            throw new UnsupportedFeatureError('components/pathItems', this.doc.openapi)
+        }
+        this.components.register(type, name, value)
+        this.doc.components = this.components.merge(this.baseComponents)
+        return componentRef(type, name)
     }
 
-    public addSchema(handler: Handler, schema: OpenAPIV3.OperationObject): void {
-        this.schemaMap.set(handler, schema)
+    public ref(type: ComponentType, name: string): OpenAPIV3.ReferenceObject {
+        return componentRef(type, name)
     }
 
-    public registerRouter(router: Router, path: string): void {
+    public registerRouter(router: Router, path: string, defaults?: RouterDefaults): void {
         this.routerMap.set(router, path)
+        if (defaults) this.routerDefaults.set(router, defaults)
+    }
+
+    // Routes that were left out of the last generated document and why
+    public getDiagnostics(): Diagnostic[] {
+        return this.diagnostics
+    }
+
+    // Lint findings of the last generation
+    public getLintResults(): LintDiagnostic[] {
+        return this.lintResults
+    }
+
+    // Every route found during the last generation and whether it has a schema
+    public getCoverage(): CoverageReport {
+        const routes = [...this.coverage.values()]
+        const documented = routes.filter(route => route.documented).length
+        return {
+            total: routes.length,
+            documented,
+            percentage: routes.length === 0 ? 100 : (documented / routes.length) * 100,
+            routes,
+        }
+    }
+
+    // Named documents built from the last generated document
+    public getDocuments(): Record<string, DocumentOf<D>> {
+        const names = Object.keys(this.options.documents ?? {})
+        return Object.fromEntries(
+            names.map(name => [name, this.selectDocument(name) as DocumentOf<D>]),
+        )
+    }
+
+    // Operation documented for a schema handler, including the router defaults merged into it.
+    // Handlers used on several routes or paths are told apart by the request they handle
+    public getOperation(handler: Handler, req?: Request): OperationMatch | undefined {
+        const declared = this.schemaMap.get(handler)
+        const entries = this.operations.filter(entry => entry.declared === declared)
+        if (!req?.method) {
+            return entries[0] && { operation: entries[0].operation, params: req?.params ?? {} }
+        }
+
+        const method = req.method.toLowerCase() === 'head' ? 'get' : req.method.toLowerCase()
+        const url = req.baseUrl + req.path
+        const matching = entries.flatMap(entry => {
+            if (entry.method !== method) return []
+            const match = this.routeMatcher(entry.route)(url)
+            return match ? [{ entry, params: match.params as Record<string, unknown> }] : []
+        })
+        // Optional groups yield an operation per combination, the one whose path parameters
+        // were all matched answers the request
+        const complete = matching
+            .map(candidate => ({
+                ...candidate,
+                names: [...candidate.entry.path.matchAll(/\{([^}]+)\}/g)].map(([, name]) => name),
+            }))
+            .filter(({ names, params }) => names.every(name => params[name] !== undefined))
+            .sort((a, b) => b.names.length - a.names.length)
+        const found = complete[0] ?? matching[0]
+        if (found) return { operation: found.entry.operation, params: found.params }
+        return entries[0] && { operation: entries[0].operation, params: req.params ?? {} }
+    }
+
+    private routeMatcher(route: string): PathToRegexp.MatchFunction<object> {
+        let matcher = this.routeMatchers.get(route)
+        if (!matcher) {
+            matcher = PathToRegexp.match(route)
+            this.routeMatchers.set(route, matcher)
+        }
+        return matcher
+    }
+
+    public getDocument(): DocumentOf<D> {
+        return this.doc as DocumentOf<D>
     }
 
-    public getDocument(): OpenAPIV3.Document {
-        return this.doc
+    public toYAML(): string {
+        return documentToYAML(this.doc)
     }
 }
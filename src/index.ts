@@ -1,2 +1,8 @@
 export * from './types'
 export * from './middleware'
+export * from './typed'
+export * from './convert'
+export { trackMountPaths } from './discovery'
+export { createMockRouter, generateExample } from './mock'
+export { diffDocuments, formatDiff } from './diff'
+export { generateClient } from './client'
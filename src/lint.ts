@@ -0,0 +1,127 @@
+import { OpenAPIV3 } from 'openapi-types'
+
+import { isParameterObject, isReferenceObject, resolveReference } from './utils'
+import { LintDiagnostic, LintFinding, LintOperation, LintOptions, LintRule } from './types'
+
+const operationId: LintRule = {
+    name: 'operation-id',
+    severity: 'warn',
+    check: (_doc, operations) =>
+        operations
+            .filter(op => !op.operation.operationId)
+            .map(op => ({ message: 'Operation has no operationId', operation: op })),
+}
+
+const uniqueOperationId: LintRule = {
+    name: 'unique-operation-id',
+    severity: 'error',
+    check: (_doc, operations) => {
+        const seen = new Map<string, LintOperation>()
+        return operations.flatMap(op => {
+            const id = op.operation.operationId
+            if (!id) return []
+            const first = seen.get(id)
+            if (!first) {
+                seen.set(id, op)
+                return []
+            }
+            const usedBy = `${first.method.toUpperCase()} ${first.path}`
+            return [{ message: `operationId "${id}" is already used by ${usedBy}`, operation: op }]
+        })
+    },
+}
+
+const responseDescription: LintRule = {
+    name: 'response-description',
+    severity: 'error',
+    check: (doc, operations) =>
+        operations.flatMap(op =>
+            Object.entries(op.operation.responses ?? {})
+                .filter(([, responseOrRef]) => {
+                    const response = resolveReference<OpenAPIV3.ResponseObject>(doc, responseOrRef)
+                    return response && !response.description
+                })
+                .map(([status]) => ({
+                    message: `Response ${status} has no description`,
+                    operation: op,
+                })),
+        ),
+}
+
+// Declared path parameters are replaced by those of the route, so unknown ones would vanish
+const pathParameters: LintRule = {
+    name: 'path-parameters',
+    severity: 'error',
+    check: (doc, operations) =>
+        operations.flatMap(op =>
+            (op.declared.parameters ?? [])
+                .map(param => resolveReference<OpenAPIV3.ParameterObject>(doc, param))
+                .filter((param): param is OpenAPIV3.ParameterObject => isParameterObject(param))
+                .filter(param => param.in === 'path' && !op.routeParams.includes(param.name))
+                .map(param => ({
+                    message: `Path parameter "${param.name}" is not part of the route`,
+                    operation: op,
+                })),
+        ),
+}
+
+const resolvableRefs: LintRule = {
+    name: 'resolvable-refs',
+    severity: 'error',
+    check: (doc, operations) => {
+        const findings: LintFinding[] = []
+        const visit = (node: unknown, segments: string[]) => {
+            if (!node || typeof node !== 'object') return
+            if (isReferenceObject(node)) {
+                // References to other documents cannot be checked here
+                if (!node.$ref.startsWith('#') || resolveReference(doc, node) !== undefined) return
+                const [root, path, method] = segments
+                const operation =
+                    root === 'paths'
+                        ? operations.find(op => op.path === path && op.method === method)
+                        : undefined
+                const pointer = segments.map(s => s.replace(/~/g, '~0').replace(/\//g, '~1'))
+                findings.push({
+                    message: `Reference "${node.$ref}" cannot be resolved`,
+                    operation,
+                    pointer: `#/${pointer.join('/')}`,
+                })
+                return
+            }
+            Object.entries(node).forEach(([key, value]) => visit(value, [...segments, key]))
+        }
+        visit(doc, [])
+        return findings
+    },
+}
+
+export const builtInRules: LintRule[] = [
+    operationId,
+    uniqueOperationId,
+    responseDescription,
+    pathParameters,
+    resolvableRefs,
+]
+
+// Run the built-in and custom rules with their configured severities
+export function lintDocument(
+    doc: OpenAPIV3.Document,
+    operations: LintOperation[],
+    options: LintOptions = {},
+): LintDiagnostic[] {
+    const rules = [...builtInRules, ...(options.custom ?? [])]
+    return rules.flatMap(rule => {
+        const severity = options.rules?.[rule.name] ?? rule.severity
+        if (severity === 'off') return []
+        return rule.check(doc, operations).map(finding => ({
+            code: rule.name,
+            rule: rule.name,
+            severity,
+            message: finding.message,
+            method: finding.operation?.method ?? '',
+            path: finding.operation?.path ?? finding.pointer ?? '',
+            route: finding.operation?.route,
+            router: finding.operation?.router,
+        }))
+    })
+}
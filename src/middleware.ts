@@ -1,38 +1,246 @@
-import { Router, Request, Response, NextFunction } from 'express'
-import { OpenAPIV3 } from 'openapi-types'
+import { Application, Router, Request, RequestParamHandler, Response, NextFunction } from 'express'
+import { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types'
 
 import { OpenAPIGenerator } from './generator'
-import { OpenAPIOptions } from './types'
+import { createDocsRouter } from './docs'
+import { documentETag, stackFingerprint } from './changes'
+import { createSecurityHandler } from './security'
+import { RequestValidationError, ResponseValidationError } from './errors'
+import {
+    coerceParameters,
+    interceptResponse,
+    validateRequest,
+    validateResponse,
+} from './validation'
+import { OperationSchema, TypedHandler, TypedRequest, TypedResponse } from './typed'
+import {
+    ComponentType,
+    ComponentValue,
+    DocumentOf,
+    OpenAPIDocument,
+    OpenAPIOptions,
+    OperationOf,
+    ParameterSchema,
+    RouteOptions,
+    RouterDefaults,
+    VerifyFunction,
+} from './types'
 
-export function ExpressOpenAPI(opts: OpenAPIOptions) {
-    const generator = new OpenAPIGenerator(opts.baseDoc)
+export function ExpressOpenAPI<D extends OpenAPIDocument = OpenAPIV3.Document>(
+    opts: OpenAPIOptions<D>,
+) {
+    const generator = new OpenAPIGenerator<D>(opts.baseDoc, opts)
     const router = Router()
+    const responseValidation =
+        typeof opts.validateResponses === 'object' ? opts.validateResponses : {}
 
-    let isFirstRequest = true
+    let fingerprint: string | undefined
     const middleware = (req: Request, res: Response, next: NextFunction) => {
-        if (isFirstRequest) {
-            middleware.document = generator.initializeDoc(req.app.router)
-            isFirstRequest = false
+        // Routes registered after a generation change the fingerprint of the stack
+        if (fingerprint === undefined || opts.watchRoutes !== false) {
+            const current = stackFingerprint(req.app.router)
+            if (current !== fingerprint) {
+                update(generator.initializeDoc(req.app.router))
+                fingerprint = current
+            }
         }
         return router(req, res, next)
     }
 
+    function update(document: DocumentOf<D>) {
+        middleware.document = document
+        middleware.documents = generator.getDocuments()
+        const etag = documentETag(document)
+        if (etag === middleware.etag) return
+        middleware.etag = etag
+        opts.onDocumentChange?.({ document, documents: middleware.documents, etag })
+    }
+
     // Publicly accessible properties
     middleware.document = generator.getDocument()
+    middleware.documents = generator.getDocuments()
+    middleware.etag = documentETag(middleware.document)
+
+    // Serve the generated document under the configured prefix
+    if (opts.docPrefix !== undefined) {
+        router.use(createDocsRouter(opts.docPrefix, () => middleware.document))
+    }
+    // Serve named documents under their own prefix
+    Object.entries(opts.documents ?? {}).forEach(([name, options]) => {
+        if (options.docPrefix === undefined) return
+        router.use(createDocsRouter(options.docPrefix, () => middleware.documents[name]))
+    })
+
+    // Generate the document immediately instead of waiting for the first request
+    middleware.generate = function (target: Application | Router) {
+        update(generator.generate(target))
+        return middleware.document
+    }
+
+    // Routes that could not be documented during the last generation
+    middleware.diagnostics = function () {
+        return generator.getDiagnostics()
+    }
+
+    // Lint findings of the last generation
+    middleware.lint = function () {
+        return generator.getLintResults()
+    }
+
+    // Documented and undocumented routes found during the last generation
+    middleware.coverage = function () {
+        return generator.getCoverage()
+    }
+
+    // Serialize the generated document as YAML
+    middleware.toYAML = function () {
+        return generator.toYAML()
+    }
+
+    // Register a named component and return a reference to it
+    middleware.component = function <T extends ComponentType>(
+        type: T,
+        name: string,
+        value: ComponentValue<T>,
+    ) {
+        return generator.registerComponent(type, name, value)
+    }
+    // Reference a component by name
+    middleware.ref = function (type: ComponentType, name: string) {
+        return generator.ref(type, name)
+    }
+
+    // Declare a webhook, only available for 3.1 documents
+    middleware.webhook = function (name: string, pathItem: OpenAPIV3_1.PathItemObject) {
+        generator.addWebhook(name, pathItem)
+    }
+
+    // Declare a security scheme and build the middleware that enforces it, routes behind the
+    // middleware are documented as requiring the scheme
+    middleware.security = function (
+        name: string,
+        scheme: OpenAPIV3.SecuritySchemeObject,
+        verify: VerifyFunction,
+    ) {
+        generator.registerComponent('securitySchemes', name, scheme)
+        const requireScopes = (...scopes: string[]) => {
+            const handler = createSecurityHandler(name, scheme, verify, scopes)
+            generator.addSecurity(handler, { [name]: scopes })
+            return handler
+        }
+        return Object.assign(requireScopes(), { scopes: requireScopes })
+    }
+
+    // Annotate a router.param() handler with the schema of the path parameter it handles
+    middleware.param = function (schema: ParameterSchema, handler?: RequestParamHandler) {
+        // Handlers are wrapped so that one handler can serve parameters of different schemas
+        const paramHandler: RequestParamHandler = (req, res, next, value, name) => {
+            if (!handler) return next()
+            return handler(req, res, next, value, name)
+        }
+        generator.addParamSchema(paramHandler, schema)
+        return paramHandler
+    }
 
     // Register a router with the OpenAPI generator
-    middleware.asRouterArgs = function (path: string, router: Router) {
-        generator.registerRouter(router, path)
+    middleware.asRouterArgs = function (path: string, router: Router, defaults?: RouterDefaults) {
+        generator.registerRouter(router, path, defaults)
         return [path, router] as const
     }
     // Register a schema with the OpenAPI generator
-    middleware.path = function (schema: OpenAPIV3.OperationObject) {
-        function schemaMiddleware(_req: Request, _res: Response, next: NextFunction) {
+    middleware.path = function (operation: OperationOf<D>, options?: RouteOptions) {
+        const schema = operation as OpenAPIV3.OperationObject
+        function schemaMiddleware(req: Request, res: Response, next: NextFunction) {
+            // The generated operation also holds inferred path parameters and router defaults,
+            // so requests are checked against what the document describes. Path values come from
+            // the whole URL since routers without mergeParams leave mount path ones out of params
+            const match = generator.getOperation(schemaMiddleware, req)
+            const operation = match?.operation ?? schema
+            if (opts.validateRequests) {
+                const issues = validateRequest(
+                    req,
+                    operation,
+                    generator.getDocument(),
+                    match?.params,
+                )
+                if (issues.length > 0) {
+                    const error = new RequestValidationError(
+                        req.method,
+                        req.baseUrl + req.path,
+                        issues,
+                    )
+                    res.status(error.status).json(error.toJSON())
+                    return
+                }
+            }
+            if (opts.coerceParameters) {
+                coerceParameters(
+                    req,
+                    operation,
+                    generator.getDocument(),
+                    { dates: true },
+                    match?.params,
+                )
+            }
+            if (opts.validateResponses) {
+                interceptResponse(res, (contentType, body) => {
+                    const doc = generator.getDocument()
+                    const status = res.statusCode
+                    const issues = validateResponse(operation, status, contentType, body, doc)
+                    if (issues.length === 0) return
+
+                    const error = new ResponseValidationError(
+                        req.method,
+                        req.baseUrl + req.path,
+                        status,
+                        issues,
+                    )
+                    switch (responseValidation.onError) {
+                        case 'log':
+                            console.warn(error.message)
+                            break
+                        case 'emit':
+                            req.app.emit('responseValidationError', error, req, res)
+                            break
+                        default:
+                            throw error
+                    }
+                })
+            }
             next()
         }
-        generator.addSchema(schemaMiddleware, schema)
+        generator.addSchema(schemaMiddleware, operation, options)
         return schemaMiddleware
     }
 
+    // Register a schema and build handlers whose request and response are typed from it
+    middleware.typed = function <const O extends OperationSchema>(schema: O) {
+        const operation = schema as unknown as OperationOf<D>
+        const schemaMiddleware = middleware.path(operation)
+
+        return {
+            schema,
+            handle(handler: TypedHandler<O>) {
+                function typedHandler(req: Request, res: Response, next: NextFunction) {
+                    // The schema middleware already coerced the request when coerceParameters is on
+                    if (!opts.coerceParameters) {
+                        const match = generator.getOperation(schemaMiddleware, req)
+                        const operation = match?.operation ?? (schema as OpenAPIV3.OperationObject)
+                        const doc = generator.getDocument()
+                        coerceParameters(req, operation, doc, { dates: true }, match?.params)
+                    }
+                    return handler(
+                        req as unknown as TypedRequest<O>,
+                        res as unknown as TypedResponse<O>,
+                        next,
+                    )
+                }
+                return [schemaMiddleware, typedHandler] as const
+            },
+        }
+    }
+
     return middleware
 }
+
+export type OpenAPIMiddleware = ReturnType<typeof ExpressOpenAPI>
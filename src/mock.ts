@@ -0,0 +1,267 @@
+import { Request, Response, Router } from 'express'
+import { OpenAPIV3 } from 'openapi-types'
+
+import { isHTTPMethod, resolveReference } from './utils'
+import { MockOptions, OpenAPIDocument } from './types'
+
+type Schema = OpenAPIV3.SchemaObject & {
+    type?: string | string[]
+    const?: unknown
+    examples?: unknown[]
+    exclusiveMinimum?: boolean | number
+    exclusiveMaximum?: boolean | number
+    prefixItems?: Schema[]
+}
+
+type Random = () => number
+
+// Schemas nested deeper than this are left out, which also ends recursive schemas
+const maxDepth = 8
+
+const words = ['alpha', 'bravo', 'charlie', 'delta', 'echo', 'foxtrot', 'golf', 'hotel']
+
+// Deterministic generator so that the same seed always yields the same responses
+function mulberry32(seed: number): Random {
+    let state = seed >>> 0
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0
+        let t = state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+function hashString(value: string): number {
+    let hash = 0x811c9dc5
+    for (let i = 0; i < value.length; i++) {
+        hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193)
+    }
+    return hash >>> 0
+}
+
+function integerBetween(random: Random, min: number, max: number): number {
+    return min + Math.floor(random() * (max - min + 1))
+}
+
+function pick<T>(random: Random, values: readonly T[]): T {
+    return values[Math.floor(random() * values.length)]
+}
+
+function hex(random: Random, length: number): string {
+    return Array.from({ length }, () => Math.floor(random() * 16).toString(16)).join('')
+}
+
+function generateString(schema: Schema, random: Random): string {
+    const date = new Date(Date.UTC(2000, 0, 1) + Math.floor(random() * 30 * 365 * 86400) * 1000)
+    switch (schema.format) {
+        case 'date':
+            return date.toISOString().slice(0, 10)
+        case 'date-time':
+            return date.toISOString().replace('.000Z', 'Z')
+        case 'email':
+            return `${pick(random, words)}@example.com`
+        case 'uuid':
+            return hex(random, 32).replace(
+                /^(.{8})(.{4}).(.{3}).(.{3})(.{12})$/,
+                '$1-$2-4$3-a$4-$5',
+            )
+        case 'uri':
+            return `https://example.com/${pick(random, words)}`
+        case 'ipv4':
+            return Array.from({ length: 4 }, () => integerBetween(random, 1, 254)).join('.')
+        case 'byte':
+            return Buffer.from(pick(random, words)).toString('base64')
+    }
+
+    const minLength = schema.minLength ?? 0
+    const maxLength = schema.maxLength ?? Math.max(minLength, 12)
+    let value = pick(random, words)
+    while (value.length < minLength) value += pick(random, words)
+    return value.slice(0, Math.max(minLength, Math.min(value.length, maxLength)))
+}
+
+function generateNumber(schema: Schema, type: string, random: Random): number {
+    const step = schema.multipleOf ?? (type === 'integer' ? 1 : 0.5)
+    let min = schema.minimum ?? (typeof schema.maximum === 'number' ? schema.maximum - 100 : 0)
+    let max = schema.maximum ?? min + 100
+    // 3.0 exclusive bounds are flags on minimum/maximum, 3.1 bounds are numbers of their own
+    if (typeof schema.exclusiveMinimum === 'number') min = schema.exclusiveMinimum + step
+    else if (schema.exclusiveMinimum) min += step
+    if (typeof schema.exclusiveMaximum === 'number') max = schema.exclusiveMaximum - step
+    else if (schema.exclusiveMaximum) max -= step
+
+    const first = Math.ceil(min / step)
+    const last = Math.floor(max / step)
+    if (last < first) return min
+    return integerBetween(random, first, last) * step
+}
+
+function generateValue(schemaOrRef: unknown, doc: object, random: Random, depth = 0): unknown {
+    const schema = resolveReference<Schema>(doc, schemaOrRef as Schema)
+    if (!schema || depth > maxDepth) return undefined
+
+    if (schema.example !== undefined) return schema.example
+    if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0]
+    if ('const' in schema) return schema.const
+    if (schema.default !== undefined) return schema.default
+    if (schema.enum && schema.enum.length > 0) return pick(random, schema.enum)
+
+    if (schema.allOf) {
+        return schema.allOf.reduce<unknown>((merged, sub) => {
+            const value = generateValue(sub, doc, random, depth + 1)
+            if (merged && typeof merged === 'object' && value && typeof value === 'object') {
+                return { ...merged, ...value }
+            }
+            return value ?? merged
+        }, undefined)
+    }
+    const alternatives = schema.oneOf ?? schema.anyOf
+    if (alternatives && alternatives.length > 0) {
+        return generateValue(alternatives[0], doc, random, depth + 1)
+    }
+
+    const types = schema.type === undefined ? [] : ([] as string[]).concat(schema.type)
+    const type = types.find(t => t !== 'null') ?? (schema.properties ? 'object' : types[0])
+    switch (type) {
+        case 'string':
+            return generateString(schema, random)
+        case 'integer':
+        case 'number':
+            return generateNumber(schema, type, random)
+        case 'boolean':
+            return random() < 0.5
+        case 'null':
+            return null
+        case 'array': {
+            const minItems = schema.minItems ?? 1
+            const maxItems = schema.maxItems ?? minItems + 2
+            const length = integerBetween(random, minItems, Math.max(minItems, maxItems))
+            const prefixItems = schema.prefixItems ?? []
+            const items = 'items' in schema ? schema.items : undefined
+            return Array.from({ length }, (_, i) => {
+                const itemSchema = i < prefixItems.length ? prefixItems[i] : items
+                return generateValue(itemSchema, doc, random, depth + 1)
+            }).filter(item => item !== undefined)
+        }
+        case 'object': {
+            const entries = Object.entries(schema.properties ?? {}).map(([name, property]) => [
+                name,
+                generateValue(property, doc, random, depth + 1),
+            ])
+            return Object.fromEntries(entries.filter(([, value]) => value !== undefined))
+        }
+        default:
+            return {}
+    }
+}
+
+// Generate a value matching the schema, the same seed always yields the same value
+export function generateExample(schema: unknown, doc: object, seed = 0): unknown {
+    return generateValue(schema, doc, mulberry32(seed))
+}
+
+// Read preferences such as "code=404, example=notFound" from the Prefer header
+function parsePrefer(req: Request): Record<string, string> {
+    return (req.get('prefer') ?? '').split(/[,;]/).reduce<Record<string, string>>((prefs, pair) => {
+        const [key, value] = pair.split('=').map(part => part.trim().replace(/^"|"$/g, ''))
+        if (key && value) prefs[key.toLowerCase()] = value
+        return prefs
+    }, {})
+}
+
+function selectResponse(
+    responses: OpenAPIV3.ResponsesObject,
+    code: string | undefined,
+): [string, OpenAPIV3.ResponseObject | OpenAPIV3.ReferenceObject] | undefined {
+    const entries = Object.entries(responses)
+    if (code) {
+        return (
+            entries.find(([key]) => key === code) ??
+            entries.find(([key]) => key.toUpperCase() === `${code[0]}XX`) ??
+            entries.find(([key]) => key === 'default')
+        )
+    }
+    const successes = entries
+        .filter(([key]) => /^2/.test(key))
+        .sort(([a], [b]) => a.localeCompare(b))
+    return successes[0] ?? entries.find(([key]) => key === 'default') ?? entries[0]
+}
+
+function statusOf(key: string, preferred: string | undefined): number {
+    if (/^\d{3}$/.test(key)) return Number(key)
+    if (preferred && /^\d{3}$/.test(preferred)) return Number(preferred)
+    if (/^\dXX$/i.test(key)) return Number(`${key[0]}00`)
+    return 200
+}
+
+function exampleOf(
+    media: OpenAPIV3.MediaTypeObject,
+    name: string | undefined,
+    doc: object,
+): { value: unknown } | undefined {
+    if (media.examples) {
+        const examples = Object.entries(media.examples)
+        const entry = (name && examples.find(([key]) => key === name)) || examples[0]
+        const example = entry && resolveReference<OpenAPIV3.ExampleObject>(doc, entry[1])
+        if (example && example.value !== undefined) return { value: example.value }
+    }
+    if (media.example !== undefined) return { value: media.example }
+    return undefined
+}
+
+function expressPath(path: string): string {
+    return `/${path.replace(/^\//, '')}`.replace(/\{([^}]+)\}/g, ':$1')
+}
+
+// Create a router answering every documented operation with an example response
+export function createMockRouter(doc: OpenAPIDocument, options: MockOptions = {}): Router {
+    const router = Router()
+    const seed = options.seed ?? 0
+
+    Object.entries(doc.paths ?? {}).forEach(([path, pathItem]) => {
+        if (!pathItem) return
+        Object.entries(pathItem).forEach(([method, value]) => {
+            if (!isHTTPMethod(method)) return
+            const operation = value as OpenAPIV3.OperationObject
+
+            router[method](expressPath(path), (req: Request, res: Response) => {
+                const prefer = parsePrefer(req)
+                const selected = selectResponse(operation.responses ?? {}, prefer.code)
+                if (!selected) {
+                    res.status(500).json({
+                        code: 'MOCK_RESPONSE_NOT_DOCUMENTED',
+                        message: `No response documented for status ${prefer.code}`,
+                    })
+                    return
+                }
+
+                const [key, responseOrRef] = selected
+                const response = resolveReference<OpenAPIV3.ResponseObject>(doc, responseOrRef)
+                res.status(statusOf(key, prefer.code))
+
+                // req.accepts([]) answers '*/*', so responses without content are ended first
+                const content = response?.content ?? {}
+                const types = Object.keys(content)
+                if (types.length === 0) {
+                    res.end()
+                    return
+                }
+
+                const contentType = req.accepts(types) || types[0]
+                const media = content[contentType] ?? {}
+                const example = exampleOf(media, prefer.example, doc)
+                const responseSeed = hashString(`${seed}:${method} ${path} ${key}`)
+                const body = example
+                    ? example.value
+                    : generateExample(media.schema ?? {}, doc, responseSeed)
+
+                res.type(contentType)
+                if (/json/i.test(contentType)) res.send(JSON.stringify(body))
+                else res.send(typeof body === 'string' ? body : JSON.stringify(body))
+            })
+        })
+    })
+
+    return router
+}
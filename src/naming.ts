@@ -0,0 +1,71 @@
+import { OperationIdContext, OperationIdOptions } from './types'
+
+// Names given to handlers by this package, which say nothing about the operation
+const internalHandlerNames = new Set(['schemaMiddleware', 'typedHandler', 'securityHandler'])
+
+// Name of a route handler if it was named by the application
+export function handlerNameOf(name: string | undefined): string | undefined {
+    const stripped = name?.replace(/^(bound )+/, '')
+    if (!stripped || stripped === 'anonymous' || stripped === '<anonymous>') return undefined
+    return internalHandlerNames.has(stripped) ? undefined : stripped
+}
+
+// Split identifiers such as "listUsers", "user_id" or "API-v2" into lowercase words
+function wordsOf(value: string): string[] {
+    return value
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+        .split(/[^A-Za-z0-9]+/)
+        .filter(Boolean)
+        .map(word => word.toLowerCase())
+}
+
+// "/users/{id}/posts" becomes "users by id posts"
+function pathWords(path: string): string[] {
+    const words = path
+        .split('/')
+        .filter(Boolean)
+        .flatMap(segment => {
+            const param = /^\{(.+)\}$/.exec(segment)
+            return param ? ['by', ...wordsOf(param[1])] : wordsOf(segment)
+        })
+    return words.length > 0 ? words : ['root']
+}
+
+function joinWords(words: string[], naming: 'camelCase' | 'snake_case'): string {
+    if (naming === 'snake_case') return words.join('_')
+    return words.map((word, i) => (i === 0 ? word : word[0].toUpperCase() + word.slice(1))).join('')
+}
+
+export function deriveOperationId(
+    context: OperationIdContext,
+    options: OperationIdOptions,
+): string {
+    const naming = options.naming ?? 'camelCase'
+    if (typeof naming === 'function') return naming(context)
+
+    if (options.useHandlerNames && context.handlerName) {
+        return joinWords(wordsOf(context.handlerName), naming)
+    }
+    return joinWords([context.method, ...pathWords(context.path)], naming)
+}
+
+// Make an operationId unique by numbering it, starting from 2 for the second use
+export function uniqueOperationId(
+    id: string,
+    taken: Set<string>,
+    options: OperationIdOptions,
+): string {
+    const separator = options.naming === 'snake_case' ? '_' : ''
+    let unique = id
+    for (let n = 2; taken.has(unique); n++) unique = `${id}${separator}${n}`
+    taken.add(unique)
+    return unique
+}
+
+// Tell apart the operations of a schema that documents several methods, "listItems" becomes
+// "listItemsPost" for POST
+export function methodOperationId(id: string, method: string, options: OperationIdOptions): string {
+    if (options.naming === 'snake_case') return `${id}_${method}`
+    return `${id}${method[0].toUpperCase()}${method.slice(1)}`
+}
@@ -0,0 +1,66 @@
+import { Handler, NextFunction, Request, Response } from 'express'
+import { OpenAPIV3 } from 'openapi-types'
+
+import { AuthenticationError } from './errors'
+import { parseCookies } from './validation'
+import { VerifyFunction } from './types'
+
+// The authorization scheme expected in the Authorization header, as in "Bearer <token>"
+function authorizationScheme(scheme: OpenAPIV3.SecuritySchemeObject): string | undefined {
+    if (scheme.type === 'http') return scheme.scheme.toLowerCase()
+    if (scheme.type === 'oauth2' || scheme.type === 'openIdConnect') return 'bearer'
+    return undefined
+}
+
+// Read the credential a security scheme expects from the request
+export function extractCredential(
+    scheme: OpenAPIV3.SecuritySchemeObject,
+    req: Request,
+): string | undefined {
+    if (scheme.type === 'apiKey') {
+        if (scheme.in === 'header') return req.get(scheme.name)
+        if (scheme.in === 'cookie') return parseCookies(req)[scheme.name]
+        const value = req.query[scheme.name]
+        return typeof value === 'string' ? value : undefined
+    }
+
+    const authorization = req.get('authorization') ?? ''
+    const index = authorization.indexOf(' ')
+    if (index < 0) return undefined
+    const type = authorization.slice(0, index).toLowerCase()
+    const credential = authorization.slice(index + 1).trim()
+    if (type !== authorizationScheme(scheme) || !credential) return undefined
+
+    // Basic credentials are handed to verify as "user:password"
+    if (type === 'basic') return Buffer.from(credential, 'base64').toString('utf8')
+    return credential
+}
+
+// Build a middleware that authenticates requests with the given scheme
+export function createSecurityHandler(
+    name: string,
+    scheme: OpenAPIV3.SecuritySchemeObject,
+    verify: VerifyFunction,
+    scopes: string[],
+): Handler {
+    return function securityHandler(req: Request, res: Response, next: NextFunction) {
+        const reject = (reason: string) => {
+            const error = new AuthenticationError(name, reason)
+            const type = authorizationScheme(scheme)
+            if (type) res.set('WWW-Authenticate', type.charAt(0).toUpperCase() + type.slice(1))
+            res.status(error.status).json(error.toJSON())
+        }
+
+        const credential = extractCredential(scheme, req)
+        if (credential === undefined) return reject('missing credentials')
+
+        Promise.resolve()
+            .then(() => verify(credential, req, scopes))
+            .then(principal => {
+                if (!principal) return reject('invalid credentials')
+                req.auth = principal
+                next()
+            })
+            .catch(next)
+    }
+}
@@ -0,0 +1,145 @@
+import { Request, Response, NextFunction } from 'express'
+import { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types'
+
+type DeepReadonly<T> = T extends (infer U)[]
+    ? readonly DeepReadonly<U>[]
+    : T extends object
+      ? { readonly [K in keyof T]: DeepReadonly<T[K]> }
+      : T
+
+// Operation objects as written with `as const`
+export type OperationSchema = DeepReadonly<OpenAPIV3.OperationObject | OpenAPIV3_1.OperationObject>
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {}
+
+type UnionToIntersection<U> = (U extends unknown ? (arg: U) => void : never) extends (
+    arg: infer I,
+) => void
+    ? I
+    : never
+
+type OrUnknown<T> = [T] extends [never] ? unknown : T
+
+type RequiredKeys<S> = S extends { required: readonly (infer R)[] } ? R : never
+
+type FromProperties<S> = S extends { properties: infer P }
+    ? Simplify<
+          { -readonly [K in keyof P & RequiredKeys<S>]: FromSchema<P[K]> } & {
+              -readonly [K in Exclude<keyof P, RequiredKeys<S>>]?: FromSchema<P[K]>
+          }
+      >
+    : {}
+
+type FromAdditionalProperties<S> = S extends { additionalProperties: false }
+    ? {}
+    : S extends { additionalProperties: infer A extends object }
+      ? Record<string, FromSchema<A>>
+      : S extends { properties: object }
+        ? {}
+        : Record<string, unknown>
+
+type FromType<S> = S extends { type: 'string' }
+    ? string
+    : S extends { type: 'integer' | 'number' }
+      ? number
+      : S extends { type: 'boolean' }
+        ? boolean
+        : S extends { type: 'array'; items: infer I }
+          ? FromSchema<I>[]
+          : S extends { type: 'object' } | { properties: object }
+            ? Simplify<FromProperties<S> & FromAdditionalProperties<S>>
+            : unknown
+
+// Distribute over the type names of 3.1 schemas such as ['string', 'null']
+type FromTypeName<S, T> = T extends 'null' ? null : FromType<Omit<S, 'type'> & { type: T }>
+
+type FromSchemaBase<S> = S extends { const: infer C }
+    ? C
+    : S extends { enum: readonly (infer E)[] }
+      ? E
+      : S extends { type: readonly (infer T)[] }
+        ? FromTypeName<S, T>
+        : S extends { allOf: readonly (infer A)[] }
+          ? UnionToIntersection<FromSchema<A>>
+          : S extends { anyOf: readonly (infer A)[] }
+            ? FromSchema<A>
+            : S extends { oneOf: readonly (infer A)[] }
+              ? FromSchema<A>
+              : FromType<S>
+
+// Infer the TypeScript type described by an OpenAPI schema, references are not followed
+export type FromSchema<S> = S extends { $ref: string }
+    ? unknown
+    : S extends { nullable: true }
+      ? FromSchemaBase<S> | null
+      : FromSchemaBase<S>
+
+// Parameters are coerced at runtime, which turns dates into Date objects
+type FromParameter<S> = S extends { type: 'string'; format: 'date' | 'date-time' }
+    ? Date
+    : S extends { type: 'array'; items: { type: 'string'; format: 'date' | 'date-time' } }
+      ? Date[]
+      : FromSchema<S>
+
+type ParameterName<P> = P extends { name: infer N extends string } ? N : never
+
+type ParametersIn<O, L extends string> = O extends { parameters: readonly (infer P)[] }
+    ? Simplify<
+          {
+              [
+                  X in Extract<
+                      P,
+                      { in: L; required: true } | { in: 'path' & L }
+                  > as ParameterName<X>
+              ]: X extends {
+                  schema: infer S
+              }
+                  ? FromParameter<S>
+                  : string
+          } & {
+              [
+                  X in Exclude<
+                      Extract<P, { in: L }>,
+                      { required: true } | { in: 'path' }
+                  > as ParameterName<X>
+              ]?: X extends {
+                  schema: infer S
+              }
+                  ? FromParameter<S>
+                  : string
+          }
+      >
+    : {}
+
+type JSONContentSchema<C> = C extends { content: { 'application/json': { schema: infer S } } }
+    ? FromSchema<S>
+    : never
+
+export type OperationParams<O> = ParametersIn<O, 'path'>
+
+export type OperationQuery<O> = ParametersIn<O, 'query'>
+
+export type OperationBody<O> = O extends { requestBody: infer B }
+    ? B extends { required: true }
+        ? OrUnknown<JSONContentSchema<B>>
+        : OrUnknown<JSONContentSchema<B>> | undefined
+    : unknown
+
+export type OperationResponse<O> = O extends { responses: infer R }
+    ? OrUnknown<{ [C in keyof R]: JSONContentSchema<R[C]> }[keyof R]>
+    : unknown
+
+export type TypedRequest<O> = Request<
+    OperationParams<O>,
+    OperationResponse<O>,
+    OperationBody<O>,
+    OperationQuery<O>
+>
+
+export type TypedResponse<O> = Response<OperationResponse<O>>
+
+export type TypedHandler<O> = (
+    req: TypedRequest<O>,
+    res: TypedResponse<O>,
+    next: NextFunction,
+) => void | Promise<void>
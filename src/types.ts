@@ -1,5 +1,5 @@
-import { Router } from 'express'
-import { OpenAPIV3 } from 'openapi-types'
+import { Request, Router } from 'express'
+import { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types'
 import { Parameter, Wildcard } from 'path-to-regexp'
 
 export interface RouterInfo {
@@ -20,9 +20,257 @@ export interface Keys extends Omit<Parameter, 'type'>, Omit<Wildcard, 'type'> {
 
 export type Layer = Router['stack'][number]
 
-export interface OpenAPIOptions {
-    baseDoc: OpenAPIV3.Document
+export interface SchemaIssue {
+    path: string
+    message: string
+}
+
+export type ParameterLocation = 'path' | 'query' | 'header' | 'cookie'
+
+export interface ValidationIssue extends SchemaIssue {
+    in: ParameterLocation | 'body'
+    name?: string
+}
+
+export type OpenAPIDocument = OpenAPIV3.Document | OpenAPIV3_1.Document
+
+// Only 3.1 documents declare webhooks, which tells the two versions apart at the type level
+export type DocumentOf<D> = 'webhooks' extends keyof D ? OpenAPIV3_1.Document : OpenAPIV3.Document
+
+// Specification extensions such as x-visibility
+export type Extensions = { [extension: `x-${string}`]: unknown }
+
+export type OperationOf<D> = 'webhooks' extends keyof D
+    ? OpenAPIV3_1.OperationObject<Extensions>
+    : OpenAPIV3.OperationObject<Extensions>
+
+export type ComponentType = keyof OpenAPIV3_1.ComponentsObject
+
+export type ComponentValue<T extends ComponentType> =
+    | NonNullable<OpenAPIV3_1.ComponentsObject[T]>[string]
+    | (T extends keyof OpenAPIV3.ComponentsObject
+          ? NonNullable<OpenAPIV3.ComponentsObject[T]>[string]
+          : never)
+
+// How routes with wildcards such as "/files/*path" are handled: abort generation, leave the
+// route out and report it, or document the wildcard as a single path parameter
+export type WildcardPolicy = 'throw' | 'skip' | 'parameter'
+
+export interface RouteOptions {
+    wildcardPaths?: WildcardPolicy
+}
+
+export interface Diagnostic {
+    code: string
+    message: string
+    method: string
+    path: string
+}
+
+// Operation properties shared by every operation beneath a router
+export type RouterDefaults = Partial<
+    Pick<OpenAPIV3.OperationObject, 'tags' | 'security' | 'parameters' | 'responses' | 'deprecated'>
+>
+
+// Resolves the credential of a security scheme to the authenticated principal, or to a falsy
+// value to reject the request
+export type VerifyFunction = (credential: string, req: Request, scopes: string[]) => unknown
+
+export interface RouteCoverage {
+    method: string
+    path: string
+    documented: boolean
+}
+
+export interface CoverageReport {
+    total: number
+    documented: number
+    percentage: number
+    routes: RouteCoverage[]
+}
+
+export type LintSeverity = 'error' | 'warn' | 'off'
+
+// Operation as written by the application, along with where it was found
+// Operation answering a request, with the path parameters of the whole URL including those of
+// router mount paths
+export interface OperationMatch {
+    operation: OpenAPIV3.OperationObject
+    params: Record<string, unknown>
+}
+
+export interface LintOperation {
+    method: string
+    path: string
+    // Express route, including the mount paths of the routers above it
+    route: string
+    // Name of the router layer the route was found in, undefined for the application router
+    router?: string
+    // Names of the parameters in the Express route, including those of optional groups
+    routeParams: string[]
+    // Operation passed to path(), before defaults and path parameters were applied
+    declared: OpenAPIV3.OperationObject
+    operation: OpenAPIV3.OperationObject
+}
+
+export interface LintFinding {
+    message: string
+    operation?: LintOperation
+    // JSON pointer of findings outside of operations
+    pointer?: string
+}
+
+export interface LintRule {
+    name: string
+    severity: Exclude<LintSeverity, 'off'>
+    check: (doc: OpenAPIV3.Document, operations: LintOperation[]) => LintFinding[]
+}
+
+export interface LintOptions {
+    // Severity overrides of built-in and custom rules by name
+    rules?: Record<string, LintSeverity>
+    custom?: LintRule[]
+}
+
+export interface LintDiagnostic extends Diagnostic {
+    rule: string
+    severity: Exclude<LintSeverity, 'off'>
+    route?: string
+    router?: string
+}
+
+export interface OperationIdContext {
+    method: string
+    // OpenAPI path, e.g. /users/{id}
+    path: string
+    // Name of the function handling the route, when it has a meaningful one
+    handlerName?: string
+}
+
+export type OperationIdNaming =
+    'camelCase' | 'snake_case' | ((context: OperationIdContext) => string)
+
+export interface OperationIdOptions {
+    naming?: OperationIdNaming
+    // Name operations after their handler function instead of their method and path
+    useHandlerNames?: boolean
+}
+
+// Operations belong to a document when they match every given criterion, and any of its values
+export interface DocumentSelector {
+    tags?: string[]
+    // Routers the operation was found beneath, at any depth
+    routers?: Router[]
+    pathPrefixes?: string[]
+    // Values of the x-visibility extension of the operation
+    visibility?: string[]
+    filter?: (operation: OpenAPIV3.OperationObject, method: string, path: string) => boolean
+}
+
+export interface DocumentOptions {
+    // Merged into the info of the base document
+    info?: Partial<OpenAPIV3.InfoObject>
+    servers?: OpenAPIV3.ServerObject[]
+    include?: DocumentSelector
+    // Serve the document under its own prefix, like docPrefix
+    docPrefix?: string
+}
+
+export type ParameterSchema = OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject
+
+export interface GeneratorOptions {
+    // Move identical inline object schemas into components/schemas
+    hoistSchemas?: boolean
+    wildcardPaths?: WildcardPolicy
+    // Recover router mount paths from app.use() and router.use() calls instead of asRouterArgs
+    discoverRouters?: boolean
+    // Schemas of path parameters by name, used for parameters that routes do not declare
+    pathParameters?: Record<string, ParameterSchema>
+    // Methods documented for routes registered with all(), defaults to get, post, put, patch
+    // and delete
+    allMethods?: `${OpenAPIV3.HttpMethods}`[]
+    // Document routes without a schema as stub operations marked with x-undocumented
+    includeUndocumented?: boolean
+    // Derive an operationId for every operation that does not declare one
+    operationIds?: boolean | OperationIdOptions
+    // Named documents holding a selection of the operations, with unused components removed
+    documents?: Record<string, DocumentOptions>
+    // Check the document after every generation, failing on findings with the error severity
+    lint?: boolean | LintOptions
+}
+
+export interface CoercionOptions {
+    // Convert date and date-time strings to Date objects
+    dates?: boolean
+}
+
+export interface ResponseValidationOptions {
+    // How mismatches are reported: thrown from res.json/res.send, logged, or emitted on the app
+    onError?: 'throw' | 'log' | 'emit'
+}
+
+export interface DocumentVersion<D extends OpenAPIDocument = OpenAPIV3.Document> {
+    document: DocumentOf<D>
+    documents: Record<string, DocumentOf<D>>
+    etag: string
+}
+
+export interface OpenAPIOptions<
+    D extends OpenAPIDocument = OpenAPIV3.Document,
+> extends GeneratorOptions {
+    baseDoc: D
     docPrefix?: string
+    // Rebuild the document when routes are added after the first request, enabled by default
+    watchRoutes?: boolean
+    // Called whenever a generation produces a document that differs from the previous one
+    onDocumentChange?: (version: DocumentVersion<D>) => void
+    validateRequests?: boolean
+    validateResponses?: boolean | ResponseValidationOptions
+    // Convert path and query parameters to their declared types and apply their defaults
+    coerceParameters?: boolean
+}
+
+export interface MockOptions {
+    // Seed for generated responses, the same seed always yields the same responses
+    seed?: number
+}
+
+// Generated source files by file name
+export type ClientFiles = Record<string, string>
+
+export interface DiffChange {
+    code: string
+    breaking: boolean
+    location: string
+    message: string
+}
+
+export interface DiffReport {
+    breaking: boolean
+    changes: DiffChange[]
+}
+
+export interface DiffOptions {
+    base: string
+    head: string
+    exportName?: string
+    format: 'text' | 'json'
+}
+
+export interface GenerateClientOptions {
+    source: string
+    output: string
+    exportName?: string
+}
+
+export interface ExportOptions {
+    module: string
+    exportName?: string
+    output?: string
+    format: 'json' | 'yaml'
+    pretty: boolean
+    check: boolean
+    minCoverage?: number
 }
 
 // Add type augmentation for middleware
@@ -32,6 +280,8 @@ declare global {
             app: {
                 router: Router
             }
+            // Principal resolved by the verify function of a security scheme
+            auth?: unknown
         }
     }
 }
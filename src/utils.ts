@@ -1,12 +1,21 @@
 import { Router } from 'express'
 import { OpenAPIV3_1 as OpenAPIV3 } from 'openapi-types'
 import { Token, TokenData } from 'path-to-regexp'
-import { Keys } from './types'
+import { Keys, RouterDefaults } from './types'
+import type { OpenAPIMiddleware } from './middleware'
 
 export function isRouter(handle: any): handle is Router {
     return handle && typeof handle === 'function' && 'stack' in handle
 }
 
+export function isOpenAPIMiddleware(handle: any): handle is OpenAPIMiddleware {
+    return (
+        typeof handle === 'function' &&
+        typeof handle.generate === 'function' &&
+        typeof handle.toYAML === 'function'
+    )
+}
+
 export function isParameterObject(schema: any): schema is OpenAPIV3.ParameterObject {
     return schema && typeof schema === 'object' && 'name' in schema
 }
@@ -34,3 +43,132 @@ function processTokens(tokens: Token[], isInsideGroup: boolean, parameters: Keys
 export function parseKeys(data: TokenData): Keys[] {
     return processTokens(data.tokens, false, [])
 }
+
+// Expand optional groups such as "/users{/:id}" into every combination of included groups
+export function expandOptionalGroups(tokens: Token[]): Token[][] {
+    return tokens.reduce<Token[][]>(
+        (paths, token) => {
+            if (token.type !== 'group') return paths.map(path => [...path, token])
+            const variants = expandOptionalGroups(token.tokens)
+            return paths.flatMap(path => [path, ...variants.map(variant => [...path, ...variant])])
+        },
+        [[]],
+    )
+}
+
+// Build an OpenAPI path such as "/users/{id}" from path-to-regexp tokens
+export function toOpenAPIPath(tokens: Token[]): string {
+    return tokens
+        .map(token => {
+            if (token.type === 'text') return token.value
+            if (token.type === 'group') return toOpenAPIPath(token.tokens)
+            return `{${token.name}}`
+        })
+        .join('')
+}
+
+export function isReferenceObject(schema: any): schema is { $ref: string } {
+    return schema && typeof schema === 'object' && typeof schema.$ref === 'string'
+}
+
+// Resolve a local JSON pointer such as "#/components/schemas/User"
+function resolvePointer(doc: object, ref: string): unknown {
+    if (!ref.startsWith('#/')) return undefined
+    return ref
+        .slice(2)
+        .split('/')
+        .map(segment => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'))
+        .reduce<unknown>(
+            (node, segment) =>
+                node !== null && typeof node === 'object'
+                    ? (node as Record<string, unknown>)[segment]
+                    : undefined,
+            doc,
+        )
+}
+
+export function resolveReference<T>(
+    doc: object,
+    obj: T | OpenAPIV3.ReferenceObject | undefined,
+): T | undefined {
+    const seen = new Set<string>()
+    let current: unknown = obj
+    while (isReferenceObject(current)) {
+        // Guard against circular references
+        if (seen.has(current.$ref)) return undefined
+        seen.add(current.$ref)
+        current = resolvePointer(doc, current.$ref)
+    }
+    return current as T | undefined
+}
+
+// Find the media type entry matching a content type, honoring wildcards like "application/*"
+export function matchMediaType<T>(
+    content: Record<string, T> | undefined,
+    contentType: string | undefined,
+): [string, T] | undefined {
+    if (!content) return undefined
+    const entries = Object.entries(content)
+    if (!contentType) return entries[0]
+
+    const type = contentType.split(';')[0].trim().toLowerCase()
+    const [major] = type.split('/')
+    return (
+        entries.find(([key]) => key.toLowerCase() === type) ??
+        entries.find(([key]) => key.toLowerCase() === `${major}/*`) ??
+        entries.find(([key]) => key === '*/*')
+    )
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Merge override into base recursively, arrays and references of override replace those of base
+export function deepMerge<T>(base: T, override: unknown): T {
+    if (!isPlainObject(base) || !isPlainObject(override) || isReferenceObject(override)) {
+        return (override === undefined ? base : override) as T
+    }
+    const merged: Record<string, unknown> = { ...base }
+    Object.entries(override).forEach(([key, value]) => {
+        merged[key] = deepMerge(merged[key], value)
+    })
+    return merged as T
+}
+
+function parameterKey(param: OpenAPIV3.ParameterObject | OpenAPIV3.ReferenceObject): string {
+    return isReferenceObject(param) ? param.$ref : `${param.in}:${param.name}`
+}
+
+// Merge operation fragments, tags are combined and the parameters, responses and other
+// properties of override win over those of base
+export function mergeOperations<T extends RouterDefaults>(
+    base: RouterDefaults | undefined,
+    override: T,
+): T {
+    if (!base) return override
+
+    const merged = { ...base, ...override }
+    if (base.tags || override.tags) {
+        merged.tags = [...new Set([...(base.tags ?? []), ...(override.tags ?? [])])]
+    }
+    if (base.parameters || override.parameters) {
+        const parameters = [...(base.parameters ?? []), ...(override.parameters ?? [])]
+        merged.parameters = [...new Map(parameters.map(p => [parameterKey(p), p])).values()]
+    }
+    if (base.responses || override.responses) {
+        merged.responses = { ...base.responses, ...override.responses }
+    }
+    return merged
+}
+
+// Require a security scheme in addition to those already required by the defaults
+export function addSecurityRequirement(
+    defaults: RouterDefaults | undefined,
+    requirement: OpenAPIV3.SecurityRequirementObject,
+): RouterDefaults {
+    const security = defaults?.security?.length
+        ? defaults.security.map(existing => ({ ...existing, ...requirement }))
+        : [requirement]
+    return { ...defaults, security }
+}
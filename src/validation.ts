@@ -0,0 +1,397 @@
+import { Request, Response } from 'express'
+import { OpenAPIV3 } from 'openapi-types'
+
+import { validateSchema } from './validator'
+import { matchMediaType, resolveReference } from './utils'
+import { CoercionOptions, ParameterLocation, SchemaIssue, ValidationIssue } from './types'
+
+export function parseCookies(req: Request): Record<string, string> {
+    if (req.cookies && typeof req.cookies === 'object') return req.cookies
+    const header = req.headers.cookie
+    if (!header) return {}
+    return header.split(';').reduce<Record<string, string>>((cookies, pair) => {
+        const index = pair.indexOf('=')
+        if (index < 0) return cookies
+        const name = pair.slice(0, index).trim()
+        cookies[name] = decodeURIComponent(pair.slice(index + 1).trim())
+        return cookies
+    }, {})
+}
+
+// Path parameters are passed in by the caller, since routers without mergeParams leave those of
+// their mount path out of req.params
+type PathParams = Record<string, unknown> | undefined
+
+function getRawParameter(
+    req: Request,
+    location: ParameterLocation,
+    name: string,
+    pathParams: PathParams,
+): unknown {
+    switch (location) {
+        case 'path':
+            return pathParams?.[name]
+        case 'query':
+            return (req.query as Record<string, unknown> | undefined)?.[name]
+        case 'header':
+            return req.headers?.[name.toLowerCase()]
+        case 'cookie':
+            return parseCookies(req)[name]
+    }
+}
+
+type Schema = OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject
+
+function typesOf(schema: OpenAPIV3.SchemaObject): string[] {
+    // 3.1 schemas may declare several types such as ['integer', 'null']
+    const types: string[] = ([] as string[]).concat(schema.type ?? [])
+    if (types.length === 0 && schema.properties) types.push('object')
+    return types
+}
+
+// Parameters always arrive as strings, so primitives are converted to their declared types
+export function coerceValue(
+    schemaOrRef: Schema | undefined,
+    value: unknown,
+    doc: object,
+    options: CoercionOptions = {},
+): unknown {
+    const schema = resolveReference<OpenAPIV3.SchemaObject>(doc, schemaOrRef)
+    if (!schema) return value
+
+    const types = typesOf(schema)
+    if (types.includes('array')) {
+        const items = Array.isArray(value) ? value : String(value).split(',')
+        const itemSchema = 'items' in schema ? schema.items : undefined
+        return items.map(item => coerceValue(itemSchema, item, doc, options))
+    }
+    if (types.includes('object') && value && typeof value === 'object') {
+        const properties = schema.properties ?? {}
+        return Object.fromEntries(
+            Object.entries(value).map(([key, property]) => {
+                const propertySchema =
+                    properties[key] ??
+                    (typeof schema.additionalProperties === 'object'
+                        ? schema.additionalProperties
+                        : undefined)
+                return [key, coerceValue(propertySchema, property, doc, options)]
+            }),
+        )
+    }
+    if (typeof value !== 'string') return value
+    if (types.includes('null') && value === 'null') return null
+    if ((types.includes('integer') || types.includes('number')) && value.trim() !== '') {
+        const num = Number(value)
+        if (!Number.isNaN(num)) return num
+    }
+    if (types.includes('boolean') && (value === 'true' || value === 'false')) {
+        return value === 'true'
+    }
+    if (options.dates && (schema.format === 'date' || schema.format === 'date-time')) {
+        const date = new Date(value)
+        if (!Number.isNaN(date.getTime())) return date
+    }
+    return value
+}
+
+function splitItems(value: unknown, separator: string | RegExp): unknown[] {
+    const items = Array.isArray(value) ? value : [value]
+    return items.flatMap(item => (typeof item === 'string' ? item.split(separator) : [item]))
+}
+
+// "role,admin,age,3" or, exploded, "role=admin,age=3"
+function pairsToObject(items: unknown[], explode: boolean): Record<string, unknown> {
+    const pairs = explode
+        ? items.map(item => {
+              const [key, ...rest] = String(item).split('=')
+              return [key, rest.join('=')]
+          })
+        : items.flatMap((item, i) => (i % 2 === 0 ? [[item, items[i + 1]]] : []))
+    return Object.fromEntries(pairs.filter(([key]) => key !== ''))
+}
+
+// Path parameters use the simple, label or matrix style, which all default to not exploding
+function deserializePath(
+    param: OpenAPIV3.ParameterObject,
+    raw: string,
+    schema: OpenAPIV3.SchemaObject,
+): unknown {
+    const style = param.style ?? 'simple'
+    const explode = param.explode ?? false
+    const types = typesOf(schema)
+
+    let value: string | string[] = raw
+    if (style === 'label') {
+        value = raw.replace(/^\./, '')
+        if (explode) value = value.split('.')
+    } else if (style === 'matrix') {
+        const assignments = raw.split(';').filter(Boolean)
+        // Exploded objects are assigned property by property, everything else by name
+        if (explode && types.includes('object')) return pairsToObject(assignments, true)
+        value = assignments.map(assignment => assignment.replace(`${param.name}=`, ''))
+        if (!explode) value = value.join(',')
+    }
+
+    if (types.includes('object')) return pairsToObject(splitItems(value, ','), explode)
+    if (types.includes('array')) return splitItems(value, ',')
+    return Array.isArray(value) ? value.join(',') : value
+}
+
+// Query parameters use the form style by default, which explodes arrays into repeated keys
+function deserializeQuery(
+    param: OpenAPIV3.ParameterObject,
+    query: Record<string, unknown>,
+    schema: OpenAPIV3.SchemaObject,
+): unknown {
+    const style = param.style ?? 'form'
+    const explode = param.explode ?? style === 'form'
+    const types = typesOf(schema)
+    const raw = query[param.name]
+
+    if (types.includes('object')) {
+        // Objects were already parsed by the extended query parser or a previous coercion
+        if (raw && typeof raw === 'object' && !Array.isArray(raw)) return raw
+        if (style === 'deepObject') {
+            const prefix = `${param.name}[`
+            const entries = Object.entries(query)
+                .filter(([key]) => key.startsWith(prefix) && key.endsWith(']'))
+                .map(([key, value]) => [key.slice(prefix.length, -1), value])
+            return entries.length > 0 ? Object.fromEntries(entries) : undefined
+        }
+        if (explode) {
+            const entries = Object.keys(schema.properties ?? {})
+                .filter(key => query[key] !== undefined)
+                .map(key => [key, query[key]])
+            return entries.length > 0 ? Object.fromEntries(entries) : undefined
+        }
+        return raw === undefined ? undefined : pairsToObject(splitItems(raw, ','), false)
+    }
+    if (raw === undefined) return undefined
+    if (types.includes('array')) {
+        // Exploded arrays repeat the key, which the query parser already collected
+        if (explode) return Array.isArray(raw) ? raw : [raw]
+        if (style === 'spaceDelimited') return splitItems(raw, ' ')
+        if (style === 'pipeDelimited') return splitItems(raw, '|')
+        return splitItems(raw, ',')
+    }
+    return raw
+}
+
+// Read a path or query parameter as the array, object or string described by its style
+function deserializeParameter(
+    req: Request,
+    param: OpenAPIV3.ParameterObject,
+    doc: object,
+    pathParams: PathParams,
+): unknown {
+    const schema = resolveReference<OpenAPIV3.SchemaObject>(doc, param.schema)
+    const raw = getRawParameter(req, param.in as ParameterLocation, param.name, pathParams)
+    if (!schema) return raw
+    if (param.in === 'query') {
+        return deserializeQuery(param, (req.query as Record<string, unknown>) ?? {}, schema)
+    }
+    if (param.in === 'path' && typeof raw === 'string') return deserializePath(param, raw, schema)
+    return raw
+}
+
+function setQuery(req: Request, query: Record<string, unknown>) {
+    // req.query is a getter in Express 5, so it is shadowed by an own property
+    Object.defineProperty(req, 'query', {
+        value: query,
+        configurable: true,
+        enumerable: true,
+        writable: true,
+    })
+}
+
+// Convert path and query parameters of a request to the types declared by an operation, and
+// fill in the defaults of missing ones
+export function coerceParameters(
+    req: Request,
+    operation: OpenAPIV3.OperationObject,
+    doc: object,
+    options: CoercionOptions = {},
+    pathParams: PathParams = req.params,
+): void {
+    const query = { ...(req.query as Record<string, unknown>) }
+
+    for (const paramOrRef of operation.parameters ?? []) {
+        const param = resolveReference<OpenAPIV3.ParameterObject>(doc, paramOrRef)
+        if (!param?.schema || (param.in !== 'path' && param.in !== 'query')) continue
+
+        const schema = resolveReference<OpenAPIV3.SchemaObject>(doc, param.schema)
+        let raw = deserializeParameter(req, param, doc, pathParams)
+        if (raw === undefined && schema?.default !== undefined) {
+            // Defaults are copied so that handlers cannot modify the document
+            raw = JSON.parse(JSON.stringify(schema.default))
+        }
+        if (raw === undefined) continue
+
+        const value = coerceValue(param.schema, raw, doc, options)
+        if (param.in === 'path') {
+            req.params[param.name] = value as string
+            continue
+        }
+        query[param.name] = value
+        // deepObject properties arrive as keys like "filter[role]", which are replaced by the object
+        if (param.style === 'deepObject') {
+            Object.keys(query)
+                .filter(key => key.startsWith(`${param.name}[`))
+                .forEach(key => delete query[key])
+        }
+    }
+    setQuery(req, query)
+}
+
+function validateParameters(
+    req: Request,
+    operation: OpenAPIV3.OperationObject,
+    doc: object,
+    pathParams: PathParams,
+): ValidationIssue[] {
+    const issues: ValidationIssue[] = []
+
+    for (const paramOrRef of operation.parameters ?? []) {
+        const param = resolveReference<OpenAPIV3.ParameterObject>(doc, paramOrRef)
+        if (!param) continue
+
+        const location = param.in as ParameterLocation
+        const raw = param.schema
+            ? deserializeParameter(req, param, doc, pathParams)
+            : getRawParameter(req, location, param.name, pathParams)
+        if (raw === undefined) {
+            if (param.required || location === 'path') {
+                issues.push({ in: location, name: param.name, path: '', message: 'is required' })
+            }
+            continue
+        }
+
+        const schema = param.schema ?? matchMediaType(param.content, undefined)?.[1].schema
+        if (!schema) continue
+
+        const value = coerceValue(schema, raw, doc)
+        validateSchema(schema, value, doc).forEach(issue => {
+            issues.push({ in: location, name: param.name, ...issue })
+        })
+    }
+    return issues
+}
+
+function validateBody(
+    req: Request,
+    operation: OpenAPIV3.OperationObject,
+    doc: object,
+): ValidationIssue[] {
+    const requestBody = resolveReference<OpenAPIV3.RequestBodyObject>(doc, operation.requestBody)
+    if (!requestBody) return []
+
+    if (req.body === undefined) {
+        if (!requestBody.required) return []
+        return [{ in: 'body', path: '', message: 'is required' }]
+    }
+
+    const contentType = req.headers?.['content-type']
+    const media = matchMediaType(requestBody.content, contentType)
+    if (!media) {
+        return [{ in: 'body', path: '', message: `unsupported content type "${contentType}"` }]
+    }
+
+    const schema = media[1].schema
+    if (!schema) return []
+    return validateSchema(schema, req.body, doc).map(issue => ({ in: 'body', ...issue }))
+}
+
+// Validate an incoming request against the parameters and request body of an operation
+export function validateRequest(
+    req: Request,
+    operation: OpenAPIV3.OperationObject,
+    doc: object,
+    pathParams: PathParams = req.params,
+): ValidationIssue[] {
+    return [
+        ...validateParameters(req, operation, doc, pathParams),
+        ...validateBody(req, operation, doc),
+    ]
+}
+
+function findResponse(
+    responses: OpenAPIV3.ResponsesObject | undefined,
+    status: number,
+): OpenAPIV3.ResponseObject | OpenAPIV3.ReferenceObject | undefined {
+    if (!responses) return undefined
+    // Exact codes take precedence over ranges like "2XX", which take precedence over "default"
+    return responses[String(status)] ?? responses[`${String(status)[0]}XX`] ?? responses.default
+}
+
+// Validate an outgoing response against the responses declared for an operation
+export function validateResponse(
+    operation: OpenAPIV3.OperationObject,
+    status: number,
+    contentType: string | undefined,
+    body: unknown,
+    doc: object,
+): SchemaIssue[] {
+    const response = resolveReference<OpenAPIV3.ResponseObject>(
+        doc,
+        findResponse(operation.responses, status),
+    )
+    if (!response) {
+        return [{ path: '', message: `status code ${status} is not documented` }]
+    }
+
+    const hasBody = body !== undefined && body !== ''
+    if (!response.content) {
+        return hasBody ? [{ path: '', message: `status code ${status} must not have a body` }] : []
+    }
+    if (!hasBody) return []
+
+    const media = matchMediaType(response.content, contentType)
+    if (!media) {
+        return [{ path: '', message: `content type "${contentType}" is not documented` }]
+    }
+
+    const schema = media[1].schema
+    if (!schema) return []
+    return validateSchema(schema, body, doc)
+}
+
+function defaultContentType(body: unknown): string {
+    if (typeof body === 'string') return 'text/html'
+    if (Buffer.isBuffer(body)) return 'application/octet-stream'
+    return 'application/json'
+}
+
+function parseBody(contentType: string, body: unknown): unknown {
+    if (typeof body !== 'string' || !/json/i.test(contentType)) return body
+    try {
+        return JSON.parse(body)
+    } catch {
+        return body
+    }
+}
+
+// Hook into res.json and res.send so the final body can be inspected once before it is sent
+export function interceptResponse(
+    res: Response,
+    inspect: (contentType: string, body: unknown) => void,
+): void {
+    const json = res.json
+    const send = res.send
+    let inspected = false
+
+    res.json = function (body?: unknown) {
+        if (!inspected) {
+            inspected = true
+            inspect(res.get('Content-Type') ?? 'application/json', body)
+        }
+        return json.call(res, body)
+    }
+    res.send = function (body?: unknown) {
+        if (!inspected) {
+            inspected = true
+            const contentType = res.get('Content-Type') ?? defaultContentType(body)
+            inspect(contentType, parseBody(contentType, body))
+        }
+        return send.call(res, body)
+    }
+}
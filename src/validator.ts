@@ -0,0 +1,211 @@
+import { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types'
+
+import { isReferenceObject, resolveReference } from './utils'
+import { SchemaIssue } from './types'
+
+type Schema =
+    | OpenAPIV3.SchemaObject
+    | OpenAPIV3.ReferenceObject
+    | OpenAPIV3_1.SchemaObject
+    | OpenAPIV3_1.ReferenceObject
+
+// Keywords of 3.0 schemas together with the JSON Schema 2020-12 keywords allowed by 3.1
+type SchemaKeywords = Omit<
+    OpenAPIV3.SchemaObject,
+    'type' | 'exclusiveMinimum' | 'exclusiveMaximum'
+> & {
+    type?: string | string[]
+    const?: unknown
+    exclusiveMinimum?: boolean | number
+    exclusiveMaximum?: boolean | number
+    prefixItems?: Schema[]
+    items?: Schema
+    contains?: Schema
+}
+
+const formats: Record<string, RegExp> = {
+    date: /^\d{4}-\d{2}-\d{2}$/,
+    'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i,
+    email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+    uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+    uri: /^[a-z][a-z0-9+.-]*:\S*$/i,
+    ipv4: /^((25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(25[0-5]|2[0-4]\d|1?\d?\d)$/,
+}
+
+function typeOf(value: unknown): string {
+    if (value === null) return 'null'
+    if (Array.isArray(value)) return 'array'
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number'
+    return typeof value
+}
+
+function matchesType(type: string, value: unknown): boolean {
+    const actual = typeOf(value)
+    if (type === 'number') return actual === 'number' || actual === 'integer'
+    return actual === type
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function walk(
+    schemaOrRef: Schema,
+    value: unknown,
+    path: string,
+    doc: object,
+    issues: SchemaIssue[],
+) {
+    const schema = resolveReference<SchemaKeywords>(doc, schemaOrRef as SchemaKeywords)
+    if (!schema) {
+        const ref = isReferenceObject(schemaOrRef) ? schemaOrRef.$ref : ''
+        issues.push({ path, message: `cannot resolve reference "${ref}"` })
+        return
+    }
+
+    const types = schema.type === undefined ? [] : ([] as string[]).concat(schema.type)
+    if (value === null) {
+        if (schema.nullable || types.includes('null')) return
+        if (types.length > 0) {
+            issues.push({ path, message: 'must not be null' })
+            return
+        }
+    } else if (types.length > 0 && !types.some(type => matchesType(type, value))) {
+        issues.push({ path, message: `must be of type ${types.join(' or ')}` })
+        return
+    }
+
+    if (schema.enum && !schema.enum.some(e => isEqual(e, value))) {
+        const allowed = schema.enum.map(e => JSON.stringify(e)).join(', ')
+        issues.push({ path, message: `must be one of ${allowed}` })
+    }
+    if ('const' in schema && !isEqual(schema.const, value)) {
+        issues.push({ path, message: `must be equal to ${JSON.stringify(schema.const)}` })
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            issues.push({ path, message: `must have at least ${schema.minLength} characters` })
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            issues.push({ path, message: `must have at most ${schema.maxLength} characters` })
+        }
+        if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+            issues.push({ path, message: `must match pattern "${schema.pattern}"` })
+        }
+        if (schema.format && formats[schema.format] && !formats[schema.format].test(value)) {
+            issues.push({ path, message: `must match format "${schema.format}"` })
+        }
+    }
+
+    if (typeof value === 'number') {
+        // In 3.1 exclusive bounds are numbers of their own rather than modifiers of minimum/maximum
+        if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+            issues.push({ path, message: `must be > ${schema.exclusiveMinimum}` })
+        }
+        if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+            issues.push({ path, message: `must be < ${schema.exclusiveMaximum}` })
+        }
+        if (schema.minimum !== undefined) {
+            const exclusive = schema.exclusiveMinimum === true
+            if (exclusive ? value <= schema.minimum : value < schema.minimum) {
+                const op = exclusive ? '>' : '>='
+                issues.push({ path, message: `must be ${op} ${schema.minimum}` })
+            }
+        }
+        if (schema.maximum !== undefined) {
+            const exclusive = schema.exclusiveMaximum === true
+            if (exclusive ? value >= schema.maximum : value > schema.maximum) {
+                const op = exclusive ? '<' : '<='
+                issues.push({ path, message: `must be ${op} ${schema.maximum}` })
+            }
+        }
+        if (schema.multipleOf !== undefined && (value / schema.multipleOf) % 1 !== 0) {
+            issues.push({ path, message: `must be a multiple of ${schema.multipleOf}` })
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            issues.push({ path, message: `must have at least ${schema.minItems} items` })
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            issues.push({ path, message: `must have at most ${schema.maxItems} items` })
+        }
+        if (
+            schema.uniqueItems &&
+            new Set(value.map(v => JSON.stringify(v))).size !== value.length
+        ) {
+            issues.push({ path, message: 'must not contain duplicate items' })
+        }
+        const prefixItems = schema.prefixItems ?? []
+        prefixItems.forEach((prefix, i) => {
+            if (i < value.length) walk(prefix, value[i], `${path}/${i}`, doc, issues)
+        })
+        const items = schema.items
+        if (items) {
+            value.forEach((item, i) => {
+                if (i >= prefixItems.length) walk(items, item, `${path}/${i}`, doc, issues)
+            })
+        }
+        const contains = schema.contains
+        if (contains && !value.some(item => validateSchema(contains, item, doc).length === 0)) {
+            issues.push({ path, message: 'must contain at least one matching item' })
+        }
+    }
+
+    if (typeOf(value) === 'object') {
+        const obj = value as Record<string, unknown>
+        const keys = Object.keys(obj)
+        const properties = schema.properties ?? {}
+
+        for (const name of schema.required ?? []) {
+            if (obj[name] === undefined) {
+                issues.push({ path: `${path}/${name}`, message: 'is required' })
+            }
+        }
+        if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+            issues.push({ path, message: `must have at least ${schema.minProperties} properties` })
+        }
+        if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+            issues.push({ path, message: `must have at most ${schema.maxProperties} properties` })
+        }
+        for (const key of keys) {
+            if (obj[key] === undefined) continue
+            if (properties[key]) {
+                walk(properties[key], obj[key], `${path}/${key}`, doc, issues)
+            } else if (schema.additionalProperties === false) {
+                issues.push({ path: `${path}/${key}`, message: 'is not allowed' })
+            } else if (typeof schema.additionalProperties === 'object') {
+                walk(schema.additionalProperties, obj[key], `${path}/${key}`, doc, issues)
+            }
+        }
+    }
+
+    schema.allOf?.forEach(sub => walk(sub, value, path, doc, issues))
+
+    if (schema.anyOf && !schema.anyOf.some(sub => validateSchema(sub, value, doc).length === 0)) {
+        issues.push({ path, message: 'must match at least one schema in anyOf' })
+    }
+    if (schema.oneOf) {
+        const matches = schema.oneOf.filter(sub => validateSchema(sub, value, doc).length === 0)
+        if (matches.length !== 1) {
+            issues.push({ path, message: 'must match exactly one schema in oneOf' })
+        }
+    }
+    if (schema.not && validateSchema(schema.not, value, doc).length === 0) {
+        issues.push({ path, message: 'must not match the schema in not' })
+    }
+}
+
+// Validate a value against an OpenAPI schema, resolving references against the given document
+export function validateSchema(
+    schema: Schema,
+    value: unknown,
+    doc: object,
+    path = '',
+): SchemaIssue[] {
+    const issues: SchemaIssue[] = []
+    walk(schema, value, path, doc, issues)
+    return issues
+}
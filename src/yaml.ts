@@ -0,0 +1,216 @@
+import { OpenAPIV3 } from 'openapi-types'
+
+import { isHTTPMethod } from './utils'
+
+const reserved = /^(true|false|yes|no|on|off|null|~|y|n)$/i
+const plain = /^[\w./][\w .,()/-]*$/
+// Strings a YAML parser would read as numbers, timestamps or sexagesimals
+const ambiguous =
+    /^([-+]?(\d[\d_]*)?\.?\d*([eE][-+]?\d+)?|0x[\da-f]+|0o[0-7]+|[-+]?\.(inf|nan)|\d+(:\d+)+|\d{4}-\d\d?-\d\d?.*)$/i
+// Characters that can only be represented inside double-quoted scalars
+const unprintable = /[\x00-\x08\x0b-\x1f\x7f\u2028\u2029]/
+
+// Conventional key order of the OpenAPI specification, unknown keys keep their original order
+const keyOrder = {
+    document: [
+        'openapi',
+        'info',
+        'jsonSchemaDialect',
+        'servers',
+        'paths',
+        'webhooks',
+        'components',
+        'security',
+        'tags',
+        'externalDocs',
+    ],
+    info: ['title', 'summary', 'description', 'termsOfService', 'contact', 'license', 'version'],
+    pathItem: [
+        '$ref',
+        'summary',
+        'description',
+        'servers',
+        'parameters',
+        'get',
+        'put',
+        'post',
+        'delete',
+        'options',
+        'head',
+        'patch',
+        'trace',
+    ],
+    operation: [
+        'tags',
+        'summary',
+        'description',
+        'externalDocs',
+        'operationId',
+        'parameters',
+        'requestBody',
+        'responses',
+        'callbacks',
+        'deprecated',
+        'security',
+        'servers',
+    ],
+    parameter: [
+        'name',
+        'in',
+        'description',
+        'required',
+        'deprecated',
+        'allowEmptyValue',
+        'style',
+        'explode',
+        'allowReserved',
+        'schema',
+        'example',
+        'examples',
+        'content',
+    ],
+    requestBody: ['description', 'required', 'content'],
+    response: ['description', 'headers', 'content', 'links'],
+    components: [
+        'schemas',
+        'responses',
+        'parameters',
+        'examples',
+        'requestBodies',
+        'headers',
+        'securitySchemes',
+        'links',
+        'callbacks',
+        'pathItems',
+    ],
+}
+
+function isCollection(value: unknown): value is object {
+    return value !== null && typeof value === 'object' && entries(value).length > 0
+}
+
+function entries(value: object): [string, unknown][] {
+    return Object.entries(value).filter(([, v]) => v !== undefined)
+}
+
+function sortKeys<T>(value: T, order: string[]): T {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return value
+    const obj = value as Record<string, unknown>
+    const keys = [
+        ...order.filter(key => key in obj),
+        ...Object.keys(obj).filter(key => !order.includes(key)),
+    ]
+    return Object.fromEntries(keys.map(key => [key, obj[key]])) as T
+}
+
+function mapValues<T>(value: T, fn: (v: NonNullable<T>[keyof NonNullable<T>]) => unknown): T {
+    if (!value || typeof value !== 'object') return value
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, fn(v)])) as T
+}
+
+function sortOperation(operation: OpenAPIV3.OperationObject): OpenAPIV3.OperationObject {
+    const sorted = sortKeys(operation, keyOrder.operation)
+    return {
+        ...sorted,
+        parameters: sorted.parameters?.map(p => sortKeys(p, keyOrder.parameter)),
+        requestBody: sortKeys(sorted.requestBody, keyOrder.requestBody),
+        responses: mapValues(sorted.responses, r => sortKeys(r, keyOrder.response)),
+    }
+}
+
+function sortPathItem(pathItem: OpenAPIV3.PathItemObject): OpenAPIV3.PathItemObject {
+    const sorted = sortKeys(pathItem, keyOrder.pathItem) as Record<string, unknown>
+    return Object.fromEntries(
+        Object.entries(sorted).map(([key, value]) => {
+            if (key === 'parameters') {
+                return [key, (value as object[]).map(p => sortKeys(p, keyOrder.parameter))]
+            }
+            if (!isHTTPMethod(key)) return [key, value]
+            return [key, sortOperation(value as OpenAPIV3.OperationObject)]
+        }),
+    )
+}
+
+// Reorder the keys of a document following the conventions of the OpenAPI specification
+export function sortDocument<T extends object>(doc: T): T {
+    const sorted = sortKeys(doc, keyOrder.document) as Record<string, unknown>
+    const sortPathItems = (pathItems: unknown) =>
+        mapValues(pathItems as OpenAPIV3.PathsObject | undefined, p => p && sortPathItem(p))
+    return {
+        ...sorted,
+        info: sortKeys(sorted.info, keyOrder.info),
+        paths: sortPathItems(sorted.paths),
+        webhooks: sortPathItems(sorted.webhooks),
+        components: sortKeys(sorted.components, keyOrder.components),
+    } as T
+}
+
+function quote(str: string): string {
+    if (unprintable.test(str) || str.includes('\n')) return JSON.stringify(str)
+    return `'${str.replace(/'/g, "''")}'`
+}
+
+function scalar(value: unknown): string {
+    if (value === null || value === undefined) return 'null'
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+    if (Array.isArray(value)) return '[]'
+    if (typeof value === 'object') return '{}'
+
+    const str = String(value)
+    if (plain.test(str) && !reserved.test(str) && !ambiguous.test(str) && !str.endsWith(' ')) {
+        return str
+    }
+    return quote(str)
+}
+
+// Multiline strings are emitted as literal block scalars when they can be represented as such
+function isBlockScalar(value: unknown): value is string {
+    return (
+        typeof value === 'string' &&
+        value.includes('\n') &&
+        !unprintable.test(value) &&
+        !/^[ \t\n]/.test(value)
+    )
+}
+
+function blockScalar(value: string, indent: string): string {
+    const trailing = value.length - value.replace(/\n+$/, '').length
+    const chomping = trailing === 0 ? '-' : trailing === 1 ? '' : '+'
+    const content = trailing > 0 ? value.slice(0, -1) : value
+    const lines = content.split('\n').map(line => (line ? indent + line : ''))
+    return `|${chomping}\n${lines.join('\n')}`
+}
+
+function emitValue(value: unknown, indent: string): string {
+    if (isCollection(value)) return '\n' + emitCollection(value, indent + '  ')
+    if (isBlockScalar(value)) return ' ' + blockScalar(value, indent + '  ')
+    return ' ' + scalar(value)
+}
+
+function emitCollection(value: object, indent: string): string {
+    if (Array.isArray(value)) {
+        return value
+            .map(item => {
+                if (isBlockScalar(item)) return `${indent}- ${blockScalar(item, indent + '  ')}`
+                if (!isCollection(item)) return `${indent}- ${scalar(item)}`
+                // Place the first line of the nested block on the same line as the dash
+                const block = emitCollection(item, indent + '  ')
+                return `${indent}- ${block.slice(indent.length + 2)}`
+            })
+            .join('\n')
+    }
+    return entries(value)
+        .map(([key, v]) => `${indent}${scalar(key)}:${emitValue(v, indent)}`)
+        .join('\n')
+}
+
+// Serialize a JSON-compatible value as a YAML document
+export function toYAML(value: unknown): string {
+    if (!isCollection(value)) return scalar(value) + '\n'
+    return emitCollection(value, '') + '\n'
+}
+
+// Serialize an OpenAPI document as YAML using the conventional key order
+export function documentToYAML(doc: object): string {
+    return toYAML(sortDocument(doc))
+}